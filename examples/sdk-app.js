@@ -0,0 +1,34 @@
+/**
+ * Test application using the gpdd worker SDK
+ */
+
+import http from 'node:http';
+import { ready, onShutdown, onHealthCheck, reportMetrics, drainServer } from 'git-push-deploy-daemon/worker';
+
+const PORT = process.env.PORT || 3000;
+let requests = 0;
+
+const server = drainServer(http.createServer((req, res) => {
+  requests++;
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    pid: process.pid,
+    uptime: process.uptime(),
+    timestamp: new Date().toISOString(),
+  }));
+}));
+
+server.listen(PORT, () => {
+  console.log(`[Worker ${process.pid}] Listening on port ${PORT}`);
+  ready();
+});
+
+// Answer per-worker health checks (--worker-health)
+onHealthCheck(() => true);
+
+// Report request count every 10s (shown under metrics in /status)
+setInterval(() => reportMetrics({ requests }), 10000).unref();
+
+onShutdown(() => {
+  console.log(`[Worker ${process.pid}] Goodbye!`);
+});
@@ -0,0 +1,282 @@
+/**
+ * Autoscaling Module
+ *
+ * Periodically samples per-worker CPU (/proc/<pid>/stat) and memory (VmRSS)
+ * plus system memory headroom, and moves the worker count within
+ * minWorkers..maxWorkers. To avoid flapping, the scale-up and scale-down
+ * thresholds are apart (hysteresis), a decision needs several consecutive
+ * samples, and every scaling step is followed by a cooldown.
+ */
+
+import fs from 'node:fs';
+import chalk from 'chalk';
+import { getProcessMemoryMB, getSystemMemory } from './ipc.js';
+
+export interface AutoscaleOptions {
+  /** Lower bound for the worker count */
+  minWorkers: number;
+  /** Upper bound for the worker count */
+  maxWorkers: number;
+  /** Sample interval in ms (default: 10000) */
+  interval?: number;
+  /** Consecutive samples required for a decision (default: 3) */
+  samples?: number;
+  /** Scale up when average CPU per worker is above this percentage (default: 75) */
+  scaleUpCpu?: number;
+  /** Scale down when average CPU per worker is below this percentage (default: 25) */
+  scaleDownCpu?: number;
+  /** Scale down (and never up) when free system memory is below this percentage (default: 10) */
+  minFreeMemoryPercent?: number;
+  /** Wait after scaling up before the next decision, in ms (default: 60000) */
+  scaleUpCooldown?: number;
+  /** Wait after scaling down before the next decision, in ms (default: 300000) */
+  scaleDownCooldown?: number;
+}
+
+export interface LoadSample {
+  time: number;
+  /** Worker processes sampled */
+  workers: number;
+  /** Average CPU usage per worker in percent of one core */
+  cpuPercent: number;
+  /** Average RSS per worker in MB */
+  memoryMB?: number;
+  /** System memory in MB and available share in percent */
+  totalMemoryMB?: number;
+  freeMemoryMB?: number;
+  freeMemoryPercent?: number;
+}
+
+export interface ScaleDecision {
+  target: number;
+  reason: string;
+}
+
+export interface AutoscaleStatus {
+  minWorkers: number;
+  maxWorkers: number;
+  /** Most recent load sample */
+  lastSample?: LoadSample;
+  /** Most recent scaling decision */
+  lastDecision?: ScaleDecision & { time: number; from: number };
+}
+
+export interface AutoscaleHooks {
+  /** PIDs of running workers */
+  getWorkerPids: () => number[];
+  /** Current target worker count */
+  getTarget: () => number;
+  /** Apply a new target; returns false if scaling is not possible right now */
+  scaleTo: (target: number, reason: string) => boolean;
+}
+
+const DEFAULT_OPTIONS = {
+  interval: 10000,
+  samples: 3,
+  scaleUpCpu: 75,
+  scaleDownCpu: 25,
+  minFreeMemoryPercent: 10,
+  scaleUpCooldown: 60000,
+  scaleDownCooldown: 300000,
+};
+
+/** Kernel clock ticks per second (USER_HZ, 100 on practically all Linux systems) */
+const CLOCK_TICKS = 100;
+
+let sampleInterval: NodeJS.Timeout | null = null;
+let options: Required<AutoscaleOptions>;
+let hooks: AutoscaleHooks | null = null;
+let samples: LoadSample[] = [];
+let cpuTicks: Map<number, { ticks: number; time: number }> = new Map();
+let cooldownUntil = 0;
+let lastDecision: AutoscaleStatus['lastDecision'];
+
+/**
+ * Start periodic load sampling and scaling decisions
+ */
+export function startAutoscaler(opts: AutoscaleOptions, scaleHooks: AutoscaleHooks): void {
+  options = { ...DEFAULT_OPTIONS, ...opts };
+  hooks = scaleHooks;
+  samples = [];
+  cpuTicks = new Map();
+
+  console.log(chalk.blue(
+    `Autoscaling: ${options.minWorkers}-${options.maxWorkers} workers ` +
+    `(CPU ${options.scaleDownCpu}%-${options.scaleUpCpu}%, every ${options.interval / 1000}s)`
+  ));
+
+  sampleInterval = setInterval(evaluate, options.interval);
+}
+
+/**
+ * Stop autoscaling
+ */
+export function stopAutoscaler(): void {
+  if (sampleInterval) {
+    clearInterval(sampleInterval);
+    sampleInterval = null;
+  }
+  hooks = null;
+}
+
+/**
+ * Autoscaling state for /status (undefined if autoscaling is off)
+ */
+export function getAutoscaleStatus(): AutoscaleStatus | undefined {
+  if (!hooks) return undefined;
+  return {
+    minWorkers: options.minWorkers,
+    maxWorkers: options.maxWorkers,
+    lastSample: samples[samples.length - 1],
+    lastDecision,
+  };
+}
+
+/**
+ * Take a sample and scale if the recent samples agree
+ */
+function evaluate(): void {
+  if (!hooks) return;
+
+  const sample = sampleLoad(hooks.getWorkerPids());
+  if (!sample) return; // First sample (no CPU delta yet) or not Linux
+
+  samples.push(sample);
+  samples = samples.slice(-options.samples);
+
+  const current = hooks.getTarget();
+  const decision = decideScale(samples, current, options, Date.now() < cooldownUntil);
+  if (!decision) return;
+
+  console.log(chalk.blue(`Autoscale: ${current} → ${decision.target} workers (${decision.reason})`));
+  if (!hooks.scaleTo(decision.target, decision.reason)) {
+    console.log(chalk.gray('Autoscale: scaling not possible right now, retrying later'));
+    return;
+  }
+
+  lastDecision = { ...decision, time: Date.now(), from: current };
+  cooldownUntil = Date.now() + (decision.target > current ? options.scaleUpCooldown : options.scaleDownCooldown);
+  samples = []; // Next decision needs fresh samples with the new worker count
+}
+
+/**
+ * Decide on a new worker count from the most recent samples
+ * @returns null if the worker count should stay
+ */
+export function decideScale(
+  recent: LoadSample[],
+  current: number,
+  opts: Required<AutoscaleOptions>,
+  coolingDown: boolean
+): ScaleDecision | null {
+  // Always respect the bounds (e.g. after a manual `gpdd scale`)
+  if (current < opts.minWorkers) {
+    return { target: opts.minWorkers, reason: `below minWorkers ${opts.minWorkers}` };
+  }
+  if (current > opts.maxWorkers) {
+    return { target: opts.maxWorkers, reason: `above maxWorkers ${opts.maxWorkers}` };
+  }
+
+  if (coolingDown || recent.length < opts.samples) return null;
+
+  const latest = recent[recent.length - 1];
+  const avgCpu = Math.round(recent.reduce((sum, s) => sum + s.cpuPercent, 0) / recent.length);
+  const lowMemory = recent.every(
+    s => s.freeMemoryPercent !== undefined && s.freeMemoryPercent < opts.minFreeMemoryPercent
+  );
+
+  if (lowMemory) {
+    if (current <= opts.minWorkers) return null;
+    return {
+      target: current - 1,
+      reason: `free memory ${latest.freeMemoryPercent}% < ${opts.minFreeMemoryPercent}% for ${recent.length} samples`,
+    };
+  }
+
+  if (recent.every(s => s.cpuPercent > opts.scaleUpCpu)) {
+    if (current >= opts.maxWorkers) return null;
+
+    // A new worker needs about as much memory as the average worker -
+    // don't add one if that would push free memory below the limit
+    if (latest.memoryMB !== undefined && latest.freeMemoryMB !== undefined && latest.totalMemoryMB) {
+      const freeAfter = (latest.freeMemoryMB - latest.memoryMB) / latest.totalMemoryMB * 100;
+      if (freeAfter < opts.minFreeMemoryPercent) return null;
+    }
+
+    return {
+      target: current + 1,
+      reason: `avg CPU ${avgCpu}% > ${opts.scaleUpCpu}% for ${recent.length} samples`,
+    };
+  }
+
+  if (recent.every(s => s.cpuPercent < opts.scaleDownCpu)) {
+    if (current <= opts.minWorkers) return null;
+    return {
+      target: current - 1,
+      reason: `avg CPU ${avgCpu}% < ${opts.scaleDownCpu}% for ${recent.length} samples`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Sample CPU and memory of the given worker processes
+ * @returns null until CPU deltas are available for at least one worker
+ */
+function sampleLoad(pids: number[]): LoadSample | null {
+  const now = Date.now();
+  const cpu: number[] = [];
+  const memory: number[] = [];
+  const seen = new Set<number>();
+
+  for (const pid of pids) {
+    seen.add(pid);
+    const ticks = readCpuTicks(pid);
+    if (ticks === undefined) continue;
+
+    const previous = cpuTicks.get(pid);
+    cpuTicks.set(pid, { ticks, time: now });
+    if (previous && now > previous.time) {
+      cpu.push(((ticks - previous.ticks) / CLOCK_TICKS) / ((now - previous.time) / 1000) * 100);
+    }
+
+    const memoryMB = getProcessMemoryMB(pid);
+    if (memoryMB !== undefined) memory.push(memoryMB);
+  }
+
+  // Forget workers that are gone
+  for (const pid of Array.from(cpuTicks.keys())) {
+    if (!seen.has(pid)) cpuTicks.delete(pid);
+  }
+
+  if (cpu.length === 0) return null;
+
+  const system = getSystemMemory();
+  return {
+    time: now,
+    workers: cpu.length,
+    cpuPercent: Math.round(cpu.reduce((a, b) => a + b, 0) / cpu.length),
+    memoryMB: memory.length ? Math.round(memory.reduce((a, b) => a + b, 0) / memory.length) : undefined,
+    totalMemoryMB: system?.totalMB,
+    freeMemoryMB: system?.freeMB,
+    freeMemoryPercent: system?.freePercent,
+  };
+}
+
+/**
+ * Read user + system CPU time of a process in clock ticks (Linux only)
+ */
+function readCpuTicks(pid: number): number | undefined {
+  try {
+    const stat = fs.readFileSync(`/proc/${pid}/stat`, 'utf-8');
+    // The command name (field 2) may contain spaces - fields are counted after its closing parenthesis
+    const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+    const utime = parseInt(fields[11], 10);
+    const stime = parseInt(fields[12], 10);
+    return isNaN(utime) || isNaN(stime) ? undefined : utime + stime;
+  } catch {
+    // Not Linux or process doesn't exist
+    return undefined;
+  }
+}
@@ -7,13 +7,34 @@
  *   gpdr reload           Zero-downtime reload
  *   gpdr stop             Graceful shutdown
  *   gpdr status           Show worker status
+ *   gpdr events           Stream lifecycle events
  */
 
 import { parseArgs } from 'node:util';
 import path from 'node:path';
 import chalk from 'chalk';
 import { startMaster } from './master.js';
-import { getStatus, sendCommand } from './ipc.js';
+import {
+  getStatus,
+  sendCommand,
+  sendReload,
+  sendScale,
+  fetchReloadJob,
+  readPortFile,
+  readTokenFile,
+  isLoopback,
+  configureClient,
+  streamEvents,
+  type ReloadResult,
+  type WorkerFailure,
+} from './ipc.js';
+import type { ReloadJob, ReloadRequest, RolloutStrategy, CanaryOptions } from './jobs.js';
+import type { AutoscaleOptions } from './autoscale.js';
+import type { ReloadHooks, HookResult } from './hooks.js';
+import { parseCron } from './schedule.js';
+import { describeEvent, type GpddEvent } from './events.js';
+import { validateWebhook, parseWebhookDefinition, type WebhookOptions } from './webhooks.js';
+import { validateHealthCheck, parseHealthCheckDefinition, type HealthCheckOptions } from './health.js';
 import { readPidFile, PID_FILE } from './pid.js';
 import fs from 'node:fs';
 
@@ -84,9 +105,60 @@ const { values, positionals } = parseArgs({
     bind: { type: 'string', short: 'b' },
     'ready-url': { type: 'string' },
     'health-url': { type: 'string' },
+    health: { type: 'string', multiple: true },
+    'health-config': { type: 'string' },
+    'health-tcp': { type: 'string' },
+    'health-exec': { type: 'string' },
+    'health-header': { type: 'string' },
+    'health-body': { type: 'string' },
+    'health-json': { type: 'string' },
     'health-interval': { type: 'string' },
     'health-threshold': { type: 'string' },
+    'worker-health': { type: 'boolean' },
+    'worker-health-interval': { type: 'string' },
+    'heartbeat-interval': { type: 'string' },
+    'heartbeat-tolerance': { type: 'string' },
+    'restart-delay': { type: 'string' },
+    'restart-multiplier': { type: 'string' },
+    'restart-max-delay': { type: 'string' },
+    'max-restarts': { type: 'string' },
+    'restart-window': { type: 'string' },
+    strategy: { type: 'string' },
+    'max-surge': { type: 'string' },
+    'max-unavailable': { type: 'string' },
+    app: { type: 'string' },
+    canary: { type: 'boolean' },
+    'bake-time': { type: 'string' },
+    'canary-url': { type: 'string' },
+    'max-memory': { type: 'string' },
+    'memory-samples': { type: 'string' },
+    'restart-cron': { type: 'string' },
+    'max-worker-age': { type: 'string' },
+    'min-workers': { type: 'string' },
+    'max-workers': { type: 'string' },
+    'scale-up-cpu': { type: 'string' },
+    'scale-down-cpu': { type: 'string' },
+    'scale-interval': { type: 'string' },
+    'scale-cooldown': { type: 'string' },
+    'pre-reload': { type: 'string' },
+    'post-reload': { type: 'string' },
+    'on-reload-failed': { type: 'string' },
+    'hook-timeout': { type: 'string' },
+    webhook: { type: 'string', multiple: true },
+    'webhook-config': { type: 'string' },
+    'allow-unauthenticated': { type: 'boolean' },
+    'ipc-tcp': { type: 'boolean' },
+    'tls-cert': { type: 'string' },
+    'tls-key': { type: 'string' },
+    'tls-client-ca': { type: 'string' },
+    url: { type: 'string' },
+    ca: { type: 'string' },
+    'client-cert': { type: 'string' },
+    'client-key': { type: 'string' },
     daemon: { type: 'boolean', short: 'd' },
+    wait: { type: 'boolean' },
+    timeout: { type: 'string' },
+    json: { type: 'boolean' },
     help: { type: 'boolean', short: 'h' },
     version: { type: 'boolean', short: 'v' },
   },
@@ -94,6 +166,8 @@ const { values, positionals } = parseArgs({
 
 const command = positionals[0];
 const appFile = positionals[1];
+/** Remote master (--url); commands then skip the local PID file */
+const remoteUrl = values.url || process.env.GPDD_URL;
 
 async function main() {
   if (values.version) {
@@ -108,6 +182,13 @@ async function main() {
     process.exit(0);
   }
 
+  configureClient({
+    url: remoteUrl,
+    ca: values.ca || process.env.GPDD_CA,
+    cert: values['client-cert'] || process.env.GPDD_CLIENT_CERT,
+    key: values['client-key'] || process.env.GPDD_CLIENT_KEY,
+  });
+
   switch (command) {
     case 'start':
       await handleStart();
@@ -115,12 +196,21 @@ async function main() {
     case 'reload':
       await handleReload();
       break;
+    case 'rollback':
+      await handleReload('rollback');
+      break;
     case 'stop':
       await handleStop();
       break;
+    case 'scale':
+      await handleScale();
+      break;
     case 'status':
       await handleStatus();
       break;
+    case 'events':
+      await handleEvents();
+      break;
     default:
       console.error(chalk.red(`Unknown command: ${command}`));
       showHelp();
@@ -133,38 +223,140 @@ function showHelp() {
 ${chalk.bold('git-push-deploy-daemon')} - Zero-downtime Node.js cluster daemon
 
 ${chalk.bold('Usage:')}
-  gpdd start <app.js> [options]   Start master + workers
-  gpdd reload                     Zero-downtime reload all workers
+  gpdd start <app.js> [options]   Start master + workers (-d --wait: until ready)
+  gpdd reload [--wait] [--canary] Zero-downtime reload all workers
+  gpdd rollback [--wait]          Reload into the previous release (see --app)
   gpdd stop                       Graceful shutdown
+  gpdd scale <n>                  Scale to exactly n workers (graceful)
   gpdd status                     Show master and worker status
+  gpdd events [--json]            Stream worker, reload, health and scale events
 
 ${chalk.bold('Options:')}
   -w, --workers <n>       Number of workers (default: CPU count)
-  -p, --ipc-port <port>   Fixed IPC port (default: random)
-  -b, --bind <ip>         Bind IPC to IP (default: 127.0.0.1, use 0.0.0.0 for remote)
+  --ipc-tcp               Serve IPC over TCP too (dashboard), besides .gpdd.sock
+  -p, --ipc-port <port>   Fixed IPC TCP port (default: random, implies --ipc-tcp)
+  -b, --bind <ip>         Bind IPC TCP to IP (default: 127.0.0.1, use 0.0.0.0 for remote)
+  --allow-unauthenticated Serve IPC without the token (loopback --bind only)
+  --tls-cert <file>       Serve IPC TCP over https with this certificate (PEM)
+  --tls-key <file>        Private key for --tls-cert (PEM)
+  --tls-client-ca <file>  Require client certificates from this CA for commands (mTLS)
+  --url <url>             status/reload/scale/stop: talk to a remote master (e.g. https://host:9000)
+  --ca <file>             CA to verify the master's certificate (with --url)
+  --client-cert <file>    Client certificate for mTLS (with --url)
+  --client-key <file>     Private key for --client-cert
   -d, --daemon            Run in background (detached)
   --ready-url <url>       URL to poll to determine worker readiness
   --health-url <url>      Health check endpoint for ongoing monitoring
+  --health <definition>   Named health check, repeatable, e.g.
+                          "name=db,url=http://localhost:3000/db,action=notify-only"
+                          (keys: name type url host port command interval timeout
+                          threshold status header body json action)
+  --health-config <file>  JSON file with an array of health checks
+  --health-tcp <[host:]port>  Health check: port accepts connections
+  --health-exec <cmd>     Health check: command exits with code 0
+  --health-header <h>     HTTP health: required header ("x-db" or "x-db: ok")
+  --health-body <text>    HTTP health: body must contain text
+  --health-json <expr>    HTTP health: JSON assertion, e.g. '$.status == "ok"'
   --health-interval <ms>  Health check interval (default: 30000)
   --health-threshold <n>  Failures before reload (default: 3)
+  --worker-health         Check each worker over IPC, replace only unhealthy ones
+  --worker-health-interval <ms>  Worker health check interval (default: 30000)
+  --heartbeat-interval <ms>  Expect process.send('heartbeat') from workers this often
+  --heartbeat-tolerance <n>  Missed heartbeats before a worker is killed (default: 3)
+  --restart-delay <ms>    Delay before restarting a crashed worker (default: 1000)
+  --restart-multiplier <n>  Delay factor per further crash (default: 2)
+  --restart-max-delay <ms>  Maximum restart delay (default: 30000)
+  --max-restarts <n>      Restarts within window before worker is errored (default: 10)
+  --restart-window <ms>   Window for counting restarts (default: 60000)
+  --strategy <type>       Reload strategy: rolling | blue-green (default: rolling)
+  --max-surge <n>         Rolling: extra workers started per batch (default: 1)
+  --max-unavailable <n>   Rolling: old workers stopped before replacements are ready (default: 0)
+  --app <file>            reload: run new workers from this entry file (new release)
+  --canary                reload: replace one worker first and watch it before continuing
+  --bake-time <ms>        Canary watch time (default: 60000)
+  --canary-url <url>      Health URL checked during bake time (default: --health-url)
+  --max-memory <MB>       Replace workers whose memory stays above this limit
+  --memory-samples <n>    Samples above --max-memory before replacing (default: 3)
+  --restart-cron <expr>   Rolling restart on a cron schedule (e.g. "0 4 * * *")
+  --max-worker-age <ms>   Rolling restart once the oldest worker is older than this
+  --min-workers <n>       Autoscale: lower worker bound (enables autoscaling with --max-workers)
+  --max-workers <n>       Autoscale: upper worker bound
+  --scale-up-cpu <pct>    Autoscale: add a worker above this avg CPU (default: 75)
+  --scale-down-cpu <pct>  Autoscale: remove a worker below this avg CPU (default: 25)
+  --scale-interval <ms>   Autoscale: load sample interval (default: 10000)
+  --scale-cooldown <ms>   Autoscale: pause after scaling up (default: 60000, down: 5x)
+  --pre-reload <cmd>      Run before a reload forks new workers (non-zero exit aborts)
+  --post-reload <cmd>     Run after a successful reload
+  --on-reload-failed <cmd>  Run after a failed reload
+  --hook-timeout <ms>     Kill reload hooks after this time (default: 300000)
+  --webhook <definition>  POST events to a URL, repeatable: a URL or
+                          "url=https://...,events=worker:crashed,reload:failed,retries=5"
+                          (keys: url events secret timeout retries; events:
+                          worker:crashed reload:completed reload:failed
+                          health:threshold shutdown)
+  --webhook-config <file> JSON file with an array of webhooks
+  --wait                  reload: block until the reload job finished
+                          start -d: block until all workers are ready
+  --timeout <ms>          Max time for --wait (default: 300000, start: 60000)
+  --json                  events: print one JSON object per event
   -h, --help              Show this help
   -v, --version           Show version
 
 ${chalk.bold('Examples:')}
   gpdd start dist/index.js -w 4
   gpdd start dist/index.js -d              # Run in background
+  gpdd start dist/index.js -d --wait       # Exit code reflects worker startup
   gpdd start dist/index.js --ready-url http://localhost:3000/health
   gpdd reload
+  gpdd reload --wait --timeout 120000      # Exit code reflects reload result
+  gpdd reload --max-surge 4                # Replace 4 workers at a time
+  gpdd reload --strategy blue-green        # Start a full new set, then drain old
+  gpdd reload --canary --bake-time 120000 --wait
+  gpdd reload --app releases/abc123/dist/index.js --wait
+  gpdd rollback --wait
+  gpdd scale 8
+  gpdd start dist/index.js --max-memory 512
+  gpdd start dist/index.js --restart-cron "0 4 * * *"
+  gpdd start dist/index.js --min-workers 2 --max-workers 8
+  gpdd start dist/index.js --pre-reload "npm run migrate"
+  gpdd start dist/index.js --webhook "url=https://hooks.example.com/gpdd,events=worker:crashed,reload:failed"
+  gpdd status --url https://app1:9000 --ca ca.pem
+  gpdd events --json | jq 'select(.type == "worker:exited")'
   gpdd stop
 
 ${chalk.bold('Environment:')}
   GPDD_WORKERS        Number of workers
-  GPDD_IPC_PORT       Fixed IPC port (default: random)
-  GPDD_BIND           Bind IPC to IP (default: 127.0.0.1)
+  GPDD_IPC_TCP=1      Serve IPC over TCP too
+  GPDD_IPC_PORT       Fixed IPC TCP port (default: random)
+  GPDD_BIND           Bind IPC TCP to IP (default: 127.0.0.1)
+  GPDD_TOKEN          IPC bearer token (default: generated into .gpdd.token)
+  GPDD_ALLOW_UNAUTHENTICATED=1             Serve IPC without the token (loopback only)
+  GPDD_TLS_CERT, GPDD_TLS_KEY, GPDD_TLS_CLIENT_CA   https / mTLS for IPC TCP
+  GPDD_URL, GPDD_CA, GPDD_CLIENT_CERT, GPDD_CLIENT_KEY   Remote master for the CLI
   GPDD_READY_URL      Ready check URL (polled until healthy)
   GPDD_HEALTH_URL     Health check URL (ongoing monitoring)
+  GPDD_HEALTH_TCP, GPDD_HEALTH_EXEC        TCP / command health check
+  GPDD_HEALTH_CONFIG  JSON file with health checks
+  GPDD_HEALTH_HEADER, GPDD_HEALTH_BODY, GPDD_HEALTH_JSON   HTTP health assertions
   GPDD_GRACE_TIMEOUT  Shutdown timeout in ms (default: 30000)
   GPDD_READY_TIMEOUT  Worker ready timeout in ms (default: 10000)
+  GPDD_OUTPUT_LINES   Output lines kept per failed worker (default: 50)
+  GPDD_WORKER_HEALTH=1, GPDD_WORKER_HEALTH_INTERVAL,
+  GPDD_WORKER_HEALTH_THRESHOLD             Per-worker health checks
+  GPDD_HEARTBEAT_INTERVAL, GPDD_HEARTBEAT_TOLERANCE   Heartbeat watchdog
+  GPDD_RESTART_DELAY, GPDD_RESTART_MULTIPLIER, GPDD_RESTART_MAX_DELAY,
+  GPDD_MAX_RESTARTS, GPDD_RESTART_WINDOW   Crash restart backoff
+  GPDD_STRATEGY, GPDD_MAX_SURGE, GPDD_MAX_UNAVAILABLE   Default reload strategy
+  GPDD_CANARY_BAKE_TIME, GPDD_CANARY_INTERVAL, GPDD_CANARY_URL,
+  GPDD_CANARY_MAX_FAILURES                 Canary reload defaults
+  GPDD_MAX_MEMORY, GPDD_MEMORY_SAMPLES, GPDD_MEMORY_INTERVAL   Worker memory limit
+  GPDD_RESTART_CRON, GPDD_MAX_WORKER_AGE   Scheduled rolling restarts
+  GPDD_MIN_WORKERS, GPDD_MAX_WORKERS, GPDD_SCALE_UP_CPU, GPDD_SCALE_DOWN_CPU,
+  GPDD_SCALE_INTERVAL, GPDD_SCALE_COOLDOWN Autoscaling
+  GPDD_PRE_RELOAD, GPDD_POST_RELOAD, GPDD_ON_RELOAD_FAILED,
+  GPDD_HOOK_TIMEOUT                        Reload hooks
+  GPDD_WEBHOOK, GPDD_WEBHOOK_CONFIG        Webhook definition / JSON file
+  GPDD_WEBHOOK_SECRET Signing key for webhooks without their own secret
 
 ${chalk.bold('Multi-Service Management:')}
   Use 'gpd daemon all start|stop|reload|status' for batch operations.
@@ -178,6 +370,11 @@ async function handleStart() {
     console.error('Usage: gpdr start <app.js>');
     process.exit(1);
   }
+  if (values.wait && !values.daemon) {
+    // In the foreground, start runs until the master stops
+    console.error(chalk.red('Error: start --wait only works with -d (--daemon)'));
+    process.exit(1);
+  }
 
   // Load .env file from app directory
   loadEnvFile(appFile);
@@ -199,20 +396,128 @@ async function handleStart() {
   const numWorkers = parseInt(values.workers || process.env.GPDD_WORKERS || '0', 10);
   const ipcPort = parseInt(values['ipc-port'] || process.env.GPDD_IPC_PORT || '0', 10);
   const bindAddress = values.bind || process.env.GPDD_BIND || '127.0.0.1';
+  // TCP is opt-in (the CLI uses the Unix socket); a port or bind address implies it
+  const ipcTcp = values['ipc-tcp'] || process.env.GPDD_IPC_TCP === '1' || !!ipcPort || !!(values.bind || process.env.GPDD_BIND);
+  const allowUnauthenticated = values['allow-unauthenticated'] || process.env.GPDD_ALLOW_UNAUTHENTICATED === '1';
+  if (allowUnauthenticated && !isLoopback(bindAddress)) {
+    console.error(chalk.red(`Error: --allow-unauthenticated is only allowed with a loopback --bind (got ${bindAddress})`));
+    process.exit(1);
+  }
   
   // Ready check URL (polled until healthy to mark worker as ready)
   const readyUrl = values['ready-url'] || process.env.GPDD_READY_URL;
   
-  // Health check options (ongoing monitoring)
-  const healthUrl = values['health-url'] || process.env.GPDD_HEALTH_URL;
-  const healthCheck = healthUrl
+  // Health check options (ongoing monitoring) and webhooks
+  let healthCheck: HealthCheckOptions | undefined;
+  let healthChecks: HealthCheckOptions[];
+  let webhooks: WebhookOptions[];
+  try {
+    healthCheck = getHealthCheckOptions();
+    if (healthCheck) validateHealthCheck(healthCheck);
+    healthChecks = getNamedHealthChecks();
+    webhooks = getWebhooks();
+  } catch (err) {
+    console.error(chalk.red(`Error: ${err instanceof Error ? err.message : err}`));
+    process.exit(1);
+  }
+
+  // Per-worker health checks (IPC round-trip)
+  const workerHealthCheck = values['worker-health'] || process.env.GPDD_WORKER_HEALTH === '1'
+    ? {
+        interval: parseInt(values['worker-health-interval'] || process.env.GPDD_WORKER_HEALTH_INTERVAL || '30000', 10),
+        threshold: parseInt(process.env.GPDD_WORKER_HEALTH_THRESHOLD || '3', 10),
+      }
+    : undefined;
+
+  // Heartbeat watchdog
+  const heartbeatInterval = parseInt(values['heartbeat-interval'] || process.env.GPDD_HEARTBEAT_INTERVAL || '0', 10);
+  const heartbeat = heartbeatInterval
+    ? {
+        interval: heartbeatInterval,
+        tolerance: parseInt(values['heartbeat-tolerance'] || process.env.GPDD_HEARTBEAT_TOLERANCE || '3', 10),
+      }
+    : undefined;
+
+  // Crash restart backoff
+  const restartPolicy = {
+    initialDelay: parseInt(values['restart-delay'] || process.env.GPDD_RESTART_DELAY || '1000', 10),
+    multiplier: parseFloat(values['restart-multiplier'] || process.env.GPDD_RESTART_MULTIPLIER || '2'),
+    maxDelay: parseInt(values['restart-max-delay'] || process.env.GPDD_RESTART_MAX_DELAY || '30000', 10),
+    maxRestarts: parseInt(values['max-restarts'] || process.env.GPDD_MAX_RESTARTS || '10', 10),
+    window: parseInt(values['restart-window'] || process.env.GPDD_RESTART_WINDOW || '60000', 10),
+  };
+
+  // Default reload strategy and canary settings
+  const { type, maxSurge, maxUnavailable } = getReloadRequest();
+  const rollout = { type, maxSurge, maxUnavailable };
+  const canary = getCanaryOverrides();
+
+  // Memory limit per worker
+  const maxMemoryMB = parseInt(values['max-memory'] || process.env.GPDD_MAX_MEMORY || '0', 10);
+  const memoryLimit = maxMemoryMB
     ? {
-        url: healthUrl,
-        interval: parseInt(values['health-interval'] || '30000', 10),
-        threshold: parseInt(values['health-threshold'] || '3', 10),
+        maxMemoryMB,
+        samples: parseInt(values['memory-samples'] || process.env.GPDD_MEMORY_SAMPLES || '3', 10),
+        interval: parseInt(process.env.GPDD_MEMORY_INTERVAL || '10000', 10),
       }
     : undefined;
 
+  // Scheduled rolling restarts
+  const restartCron = values['restart-cron'] || process.env.GPDD_RESTART_CRON;
+  const maxWorkerAge = parseInt(values['max-worker-age'] || process.env.GPDD_MAX_WORKER_AGE || '0', 10);
+  if (restartCron) {
+    try {
+      parseCron(restartCron);
+    } catch (err) {
+      console.error(chalk.red(`Error: ${err instanceof Error ? err.message : err}`));
+      process.exit(1);
+    }
+  }
+  const restartSchedule = restartCron || maxWorkerAge
+    ? { cron: restartCron, maxWorkerAge: maxWorkerAge || undefined }
+    : undefined;
+
+  // Autoscaling (only with both bounds)
+  const minWorkers = parseInt(values['min-workers'] || process.env.GPDD_MIN_WORKERS || '0', 10);
+  const maxWorkers = parseInt(values['max-workers'] || process.env.GPDD_MAX_WORKERS || '0', 10);
+  let autoscale: AutoscaleOptions | undefined;
+  if (minWorkers || maxWorkers) {
+    if (minWorkers < 1 || maxWorkers < minWorkers) {
+      console.error(chalk.red('Error: Autoscaling needs --min-workers >= 1 and --max-workers >= --min-workers'));
+      process.exit(1);
+    }
+    const cooldown = parseInt(values['scale-cooldown'] || process.env.GPDD_SCALE_COOLDOWN || '60000', 10);
+    autoscale = {
+      minWorkers,
+      maxWorkers,
+      scaleUpCpu: parseInt(values['scale-up-cpu'] || process.env.GPDD_SCALE_UP_CPU || '75', 10),
+      scaleDownCpu: parseInt(values['scale-down-cpu'] || process.env.GPDD_SCALE_DOWN_CPU || '25', 10),
+      interval: parseInt(values['scale-interval'] || process.env.GPDD_SCALE_INTERVAL || '10000', 10),
+      scaleUpCooldown: cooldown,
+      scaleDownCooldown: cooldown * 5,
+    };
+  }
+
+  // https for the IPC TCP listener
+  const tlsCert = values['tls-cert'] || process.env.GPDD_TLS_CERT;
+  const tlsKey = values['tls-key'] || process.env.GPDD_TLS_KEY;
+  const tlsClientCa = values['tls-client-ca'] || process.env.GPDD_TLS_CLIENT_CA;
+  if (!tlsCert !== !tlsKey || (tlsClientCa && !tlsCert)) {
+    console.error(chalk.red('Error: TLS needs both --tls-cert and --tls-key'));
+    process.exit(1);
+  }
+  const ipcTls = tlsCert && tlsKey
+    ? { cert: path.resolve(tlsCert), key: path.resolve(tlsKey), clientCa: tlsClientCa && path.resolve(tlsClientCa) }
+    : undefined;
+
+  // Reload hooks (shell commands)
+  const reloadHooks: ReloadHooks = {
+    preReload: values['pre-reload'] || process.env.GPDD_PRE_RELOAD,
+    postReload: values['post-reload'] || process.env.GPDD_POST_RELOAD,
+    onReloadFailed: values['on-reload-failed'] || process.env.GPDD_ON_RELOAD_FAILED,
+    timeout: parseInt(values['hook-timeout'] || process.env.GPDD_HOOK_TIMEOUT || '300000', 10),
+  };
+
   // Daemon mode: spawn detached process
   if (values.daemon) {
     const { spawn } = await import('node:child_process');
@@ -222,10 +527,52 @@ async function handleStart() {
     if (values.workers) childArgs.push('-w', values.workers);
     if (values['ipc-port']) childArgs.push('-p', values['ipc-port']);
     if (values.bind) childArgs.push('-b', values.bind);
+    if (values['ipc-tcp']) childArgs.push('--ipc-tcp');
+    if (values['tls-cert']) childArgs.push('--tls-cert', path.resolve(values['tls-cert']));
+    if (values['tls-key']) childArgs.push('--tls-key', path.resolve(values['tls-key']));
+    if (values['tls-client-ca']) childArgs.push('--tls-client-ca', path.resolve(values['tls-client-ca']));
+    if (values['allow-unauthenticated']) childArgs.push('--allow-unauthenticated');
     if (values['ready-url']) childArgs.push('--ready-url', values['ready-url']);
     if (values['health-url']) childArgs.push('--health-url', values['health-url']);
+    for (const definition of values.health || []) childArgs.push('--health', definition);
+    if (values['health-config']) childArgs.push('--health-config', path.resolve(values['health-config']));
+    if (values['health-tcp']) childArgs.push('--health-tcp', values['health-tcp']);
+    if (values['health-exec']) childArgs.push('--health-exec', values['health-exec']);
+    if (values['health-header']) childArgs.push('--health-header', values['health-header']);
+    if (values['health-body']) childArgs.push('--health-body', values['health-body']);
+    if (values['health-json']) childArgs.push('--health-json', values['health-json']);
     if (values['health-interval']) childArgs.push('--health-interval', values['health-interval']);
     if (values['health-threshold']) childArgs.push('--health-threshold', values['health-threshold']);
+    if (values['worker-health']) childArgs.push('--worker-health');
+    if (values['worker-health-interval']) childArgs.push('--worker-health-interval', values['worker-health-interval']);
+    if (values['heartbeat-interval']) childArgs.push('--heartbeat-interval', values['heartbeat-interval']);
+    if (values['heartbeat-tolerance']) childArgs.push('--heartbeat-tolerance', values['heartbeat-tolerance']);
+    if (values['restart-delay']) childArgs.push('--restart-delay', values['restart-delay']);
+    if (values['restart-multiplier']) childArgs.push('--restart-multiplier', values['restart-multiplier']);
+    if (values['restart-max-delay']) childArgs.push('--restart-max-delay', values['restart-max-delay']);
+    if (values['max-restarts']) childArgs.push('--max-restarts', values['max-restarts']);
+    if (values['restart-window']) childArgs.push('--restart-window', values['restart-window']);
+    if (values.strategy) childArgs.push('--strategy', values.strategy);
+    if (values['max-surge']) childArgs.push('--max-surge', values['max-surge']);
+    if (values['max-unavailable']) childArgs.push('--max-unavailable', values['max-unavailable']);
+    if (values['bake-time']) childArgs.push('--bake-time', values['bake-time']);
+    if (values['canary-url']) childArgs.push('--canary-url', values['canary-url']);
+    if (values['max-memory']) childArgs.push('--max-memory', values['max-memory']);
+    if (values['memory-samples']) childArgs.push('--memory-samples', values['memory-samples']);
+    if (values['restart-cron']) childArgs.push('--restart-cron', values['restart-cron']);
+    if (values['max-worker-age']) childArgs.push('--max-worker-age', values['max-worker-age']);
+    if (values['min-workers']) childArgs.push('--min-workers', values['min-workers']);
+    if (values['max-workers']) childArgs.push('--max-workers', values['max-workers']);
+    if (values['scale-up-cpu']) childArgs.push('--scale-up-cpu', values['scale-up-cpu']);
+    if (values['scale-down-cpu']) childArgs.push('--scale-down-cpu', values['scale-down-cpu']);
+    if (values['scale-interval']) childArgs.push('--scale-interval', values['scale-interval']);
+    if (values['scale-cooldown']) childArgs.push('--scale-cooldown', values['scale-cooldown']);
+    if (values['pre-reload']) childArgs.push('--pre-reload', values['pre-reload']);
+    if (values['post-reload']) childArgs.push('--post-reload', values['post-reload']);
+    if (values['on-reload-failed']) childArgs.push('--on-reload-failed', values['on-reload-failed']);
+    if (values['hook-timeout']) childArgs.push('--hook-timeout', values['hook-timeout']);
+    for (const definition of values.webhook || []) childArgs.push('--webhook', definition);
+    if (values['webhook-config']) childArgs.push('--webhook-config', path.resolve(values['webhook-config']));
     
     // Log file path (same directory as .gpdd.pid)
     const logFile = path.join(process.cwd(), '.gpdd.log');
@@ -244,6 +591,17 @@ async function handleStart() {
     console.log(chalk.green(`✓ Started in background (PID ${child.pid})`));
     console.log(chalk.dim(`  Log: ${logFile}`));
     
+    if (values.wait) {
+      const timeout = parseInt(values.timeout || '60000', 10);
+      const error = await waitForWorkersReady(child.pid!, timeout);
+      if (error) {
+        console.error(chalk.red(`Error: ${error}`));
+        printLogTail(logFile);
+        process.exit(1);
+      }
+      return;
+    }
+    
     // Wait a moment to check if it started successfully
     await new Promise(r => setTimeout(r, 1000));
     
@@ -258,29 +616,216 @@ async function handleStart() {
   }
 
   console.log(chalk.blue(`Starting ${appFile}...`));
-  await startMaster(appFile, { numWorkers, ipcPort, bindAddress, healthCheck, readyUrl });
+  await startMaster(appFile, { numWorkers, ipcPort, bindAddress, ipcTcp, ipcTls, allowUnauthenticated, healthCheck, healthChecks, workerHealthCheck, heartbeat, readyUrl, restartPolicy, rollout, canary, memoryLimit, restartSchedule, autoscale, reloadHooks, webhooks });
 }
 
-async function handleReload() {
-  const pid = readPidFile();
-  if (!pid) {
+/**
+ * Poll a freshly started master until all workers are ready
+ * @returns why startup failed, or undefined once all workers are ready
+ */
+async function waitForWorkersReady(masterPid: number, timeout: number): Promise<string | undefined> {
+  const deadline = Date.now() + timeout;
+  let lastState = 'master not responding';
+  
+  while (Date.now() < deadline) {
+    await new Promise(r => setTimeout(r, 500));
+    
+    try {
+      process.kill(masterPid, 0);
+    } catch {
+      return `master (PID ${masterPid}) exited during startup`;
+    }
+    
+    // The socket/port file may still be from a previous run until the PID file is ours
+    const status = readPidFile() === masterPid ? await getStatus() : null;
+    if (!status) continue;
+    
+    const failed = status.workers.find(w => w.state === 'restarting' || w.state === 'errored');
+    if (failed) {
+      const reason = failed.lastRestartReason ? ` (last restart: ${failed.lastRestartReason})` : '';
+      return `worker ${failed.id} ${failed.state === 'errored' ? 'is errored' : 'crashed'} during startup${reason}`;
+    }
+    
+    const target = status.scale?.target ?? status.workers.length;
+    const ready = status.workers.filter(w => w.state === 'ready').length;
+    if (target > 0 && ready >= target) {
+      console.log(chalk.green(`✓ Master running (PID ${masterPid}), ${ready} workers ready`));
+      return undefined;
+    }
+    lastState = `${ready}/${target} workers ready`;
+  }
+  
+  return `workers not ready within ${timeout}ms (${lastState})`;
+}
+
+/**
+ * Print the last lines of the daemon log
+ */
+function printLogTail(logFile: string, lines: number = 20) {
+  try {
+    const tail = fs.readFileSync(logFile, 'utf-8').trimEnd().split('\n').slice(-lines);
+    console.error(chalk.gray(`\nLast ${tail.length} lines of ${logFile}:`));
+    for (const line of tail) console.error(chalk.gray(`  ${line}`));
+  } catch {
+    // No log yet
+  }
+}
+
+/**
+ * Health check given on the command line (http, tcp or exec)
+ */
+function getHealthCheckOptions(): HealthCheckOptions | undefined {
+  const url = values['health-url'] || process.env.GPDD_HEALTH_URL;
+  const tcp = values['health-tcp'] || process.env.GPDD_HEALTH_TCP;
+  const command = values['health-exec'] || process.env.GPDD_HEALTH_EXEC;
+
+  const common = {
+    interval: parseInt(values['health-interval'] || '30000', 10),
+    threshold: parseInt(values['health-threshold'] || '3', 10),
+  };
+
+  if (url) {
+    return {
+      ...common,
+      type: 'http',
+      url,
+      expectHeader: values['health-header'] || process.env.GPDD_HEALTH_HEADER,
+      expectBody: values['health-body'] || process.env.GPDD_HEALTH_BODY,
+      expectJson: values['health-json'] || process.env.GPDD_HEALTH_JSON,
+    };
+  }
+  if (tcp) {
+    const sep = tcp.lastIndexOf(':');
+    return {
+      ...common,
+      type: 'tcp',
+      host: sep === -1 ? undefined : tcp.slice(0, sep),
+      port: parseInt(sep === -1 ? tcp : tcp.slice(sep + 1), 10),
+    };
+  }
+  if (command) {
+    return { ...common, type: 'exec', command };
+  }
+  return undefined;
+}
+
+/**
+ * Named health checks from --health definitions and the health config file
+ * @throws Error if a check is invalid or a name is used twice
+ */
+function getNamedHealthChecks(): HealthCheckOptions[] {
+  const checks = (values.health || []).map(parseHealthCheckDefinition);
+
+  const configFile = values['health-config'] || process.env.GPDD_HEALTH_CONFIG;
+  if (configFile) {
+    const config = JSON.parse(fs.readFileSync(configFile, 'utf-8'));
+    if (!Array.isArray(config)) {
+      throw new Error(`${configFile} must contain an array of health checks`);
+    }
+    for (const check of config as HealthCheckOptions[]) {
+      validateHealthCheck(check);
+      checks.push(check);
+    }
+  }
+
+  const names = new Set(getHealthCheckOptions() ? ['health'] : []);
+  for (const check of checks) {
+    const name = check.name || 'health';
+    if (names.has(name)) throw new Error(`duplicate health check name "${name}"`);
+    names.add(name);
+  }
+  return checks;
+}
+
+/**
+ * Webhooks from --webhook definitions, GPDD_WEBHOOK and the webhook config file
+ * (GPDD_WEBHOOK_SECRET signs those without their own secret)
+ * @throws Error if a webhook is invalid
+ */
+function getWebhooks(): WebhookOptions[] {
+  const definitions = values.webhook || (process.env.GPDD_WEBHOOK ? [process.env.GPDD_WEBHOOK] : []);
+  const webhooks = definitions.map(parseWebhookDefinition);
+
+  const configFile = values['webhook-config'] || process.env.GPDD_WEBHOOK_CONFIG;
+  if (configFile) {
+    const config = JSON.parse(fs.readFileSync(configFile, 'utf-8'));
+    if (!Array.isArray(config)) {
+      throw new Error(`${configFile} must contain an array of webhooks`);
+    }
+    for (const webhook of config as WebhookOptions[]) {
+      validateWebhook(webhook);
+      webhooks.push(webhook);
+    }
+  }
+
+  const secret = process.env.GPDD_WEBHOOK_SECRET;
+  return webhooks.map(webhook => ({ ...webhook, secret: webhook.secret || secret }));
+}
+
+/**
+ * Reload settings given on the command line
+ */
+function getReloadRequest(): ReloadRequest {
+  const request: ReloadRequest = {};
+  if (values.strategy) request.type = values.strategy as RolloutStrategy['type'];
+  if (values['max-surge']) request.maxSurge = parseInt(values['max-surge'], 10);
+  if (values['max-unavailable']) request.maxUnavailable = parseInt(values['max-unavailable'], 10);
+  if (values.canary) request.canary = getCanaryOverrides();
+  // Resolve relative to where the CLI runs, not where the master runs
+  if (values.app) request.app = path.resolve(values.app);
+  return request;
+}
+
+/**
+ * Canary settings given on the command line
+ */
+function getCanaryOverrides(): Partial<CanaryOptions> {
+  const canary: Partial<CanaryOptions> = {};
+  if (values['bake-time']) canary.bakeTime = parseInt(values['bake-time'], 10);
+  if (values['canary-url']) canary.url = values['canary-url'];
+  return canary;
+}
+
+async function handleReload(command: 'reload' | 'rollback' = 'reload') {
+  const pid = remoteUrl ? undefined : readPidFile();
+  if (!remoteUrl && !pid) {
     console.error(chalk.red('Error: No running instance found'));
     console.error(`PID file not found: ${PID_FILE}`);
     process.exit(1);
   }
 
-  console.log(chalk.blue(`Sending reload command to PID ${pid}...`));
+  console.log(chalk.blue(`Sending ${command} command to ${remoteUrl || `PID ${pid}`}...`));
   
   // Try IPC first (works on Windows and Linux)
-  const success = await sendCommand('reload');
-  if (success) {
-    console.log(chalk.green('✓ Reload command sent via IPC'));
-    console.log(chalk.gray('Workers will be reloaded one by one'));
+  let job: ReloadJob | null;
+  try {
+    job = await sendReload(getReloadRequest(), command);
+  } catch (error) {
+    console.error(chalk.red(`Error: ${(error as Error).message}`));
+    process.exit(1);
+  }
+  if (job) {
+    console.log(chalk.green(`✓ Reload job ${job.id} ${job.state}`));
+    if (!values.wait) {
+      console.log(chalk.gray('Workers will be reloaded one by one'));
+      console.log(chalk.gray('Use --wait to block until the reload finished'));
+      return;
+    }
+    
+    const timeout = parseInt(values.timeout || '300000', 10);
+    const finished = await waitForReloadJob(job.id, timeout);
+    if (!finished) {
+      process.exit(1);
+    }
+    if (finished.result) {
+      printReloadResult(finished.result);
+    }
+    if (finished.state !== 'succeeded') process.exit(1);
     return;
   }
 
-  // Fallback to SIGHUP on Unix
-  if (process.platform !== 'win32') {
+  // Fallback to SIGHUP on Unix (plain reload only)
+  if (pid && command === 'reload' && !values.app && process.platform !== 'win32') {
     try {
       process.kill(pid, 'SIGHUP');
       console.log(chalk.green('✓ Reload signal sent via SIGHUP'));
@@ -291,12 +836,145 @@ async function handleReload() {
     }
   }
 
-  console.error(chalk.red(`Error: Could not send reload command to PID ${pid}`));
+  console.error(chalk.red(`Error: Could not send ${command} command to ${remoteUrl || `PID ${pid}`}`));
   console.error(chalk.gray('The process may have crashed. Check logs.'));
   process.exit(1);
 }
 
+/**
+ * Poll a reload job until it finished, printing its progress steps
+ * @returns the finished job, or null on timeout / lost connection
+ */
+async function waitForReloadJob(id: string, timeout: number): Promise<ReloadJob | null> {
+  const deadline = Date.now() + timeout;
+  let printedSteps = 0;
+  
+  while (Date.now() < deadline) {
+    const job = await fetchReloadJob(id);
+    if (!job) {
+      console.error(chalk.red(`Error: Lost track of reload job ${id}`));
+      return null;
+    }
+    
+    for (const step of job.steps.slice(printedSteps)) {
+      console.log(chalk.gray(`  ${step.message}`));
+    }
+    printedSteps = job.steps.length;
+    
+    if (job.state === 'succeeded' || job.state === 'failed' || job.state === 'aborted') {
+      return job;
+    }
+    
+    await new Promise(r => setTimeout(r, 500));
+  }
+  
+  console.error(chalk.red(`Error: Reload job ${id} did not finish within ${timeout}ms`));
+  return null;
+}
+
+function printReloadResult(result: ReloadResult) {
+  const duration = ((result.endTime - result.startTime) / 1000).toFixed(1);
+  if (result.ok) {
+    console.log(chalk.green(`✓ Reload complete (${result.replaced}/${result.total} workers, ${duration}s)`));
+    (result.hooks || []).forEach(hook => printHookResult(hook));
+    return;
+  }
+  
+  const canary = result.canary;
+  if (canary && !canary.passed) {
+    console.error(chalk.red(`✗ Reload aborted: ${result.error || 'canary rejected'}`));
+    console.error(chalk.gray(
+      `  Canary worker ${canary.workerId}: ${canary.checks} checks, ${canary.failures} failed, ${canary.crashes} crashes`
+    ));
+  } else {
+    console.error(chalk.red(`✗ Reload failed: ${result.error || 'unknown error'}`));
+  }
+  for (const failure of result.failures || []) {
+    printWorkerFailure(failure);
+  }
+  console.error(chalk.gray(`  Replaced ${result.replaced}/${result.total} workers before abort (${duration}s)`));
+  if (result.rolledBack) {
+    console.error(chalk.yellow('  Old workers restored'));
+  } else if (result.replaced > 0 || result.total > 0) {
+    console.error(chalk.red('  Could not fully restore old workers - check logs'));
+  }
+  (result.hooks || []).forEach(hook => printHookResult(hook));
+}
+
+/**
+ * Print a reload hook outcome (with its output if it failed)
+ */
+function printHookResult(hook: HookResult) {
+  const duration = (hook.durationMs / 1000).toFixed(1);
+  if (hook.ok) {
+    console.log(chalk.gray(`  ${hook.hook} hook: ok (${duration}s)`));
+    return;
+  }
+  console.log(chalk.red(`  ${hook.hook} hook failed: ${hook.error} (${duration}s)`));
+  for (const line of hook.output.slice(-10)) {
+    console.log(chalk.gray(`    | ${line}`));
+  }
+}
+
+/**
+ * Print a failed worker with the last lines of its output
+ */
+function printWorkerFailure(failure: WorkerFailure, lines?: number, indent: string = '  ') {
+  console.log(chalk.red(`${indent}Worker ${failure.workerId} (PID ${failure.pid}) ${failure.reason}`));
+  const output = lines ? failure.output.slice(-lines) : failure.output;
+  if (output.length === 0) {
+    console.log(chalk.gray(`${indent}  (no output)`));
+  }
+  for (const line of output) {
+    console.log(chalk.gray(`${indent}  | ${line}`));
+  }
+}
+
+async function handleScale() {
+  const count = parseInt(positionals[1] || '', 10);
+  if (!Number.isInteger(count) || count < 1) {
+    console.error(chalk.red('Error: Missing or invalid worker count'));
+    console.error('Usage: gpdd scale <n>');
+    process.exit(1);
+  }
+
+  const pid = remoteUrl ? undefined : readPidFile();
+  if (!remoteUrl && !pid) {
+    console.error(chalk.red('Error: No running instance found'));
+    process.exit(1);
+  }
+
+  console.log(chalk.blue(`Scaling ${remoteUrl || `PID ${pid}`} to ${count} workers...`));
+
+  let scale;
+  try {
+    scale = await sendScale(count);
+  } catch (error) {
+    console.error(chalk.red(`Error: ${(error as Error).message}`));
+    process.exit(1);
+  }
+  if (!scale) {
+    console.error(chalk.red(`Error: Could not send scale command to ${remoteUrl || `PID ${pid}`}`));
+    process.exit(1);
+  }
+
+  console.log(chalk.green(`✓ Target: ${scale.target} workers (currently ${scale.actual})`));
+  if (scale.actual !== scale.target) {
+    console.log(chalk.gray('Workers are added or drained in the background'));
+  }
+}
+
 async function handleStop() {
+  if (remoteUrl) {
+    // The process can't be watched remotely
+    if (!(await sendCommand('stop'))) {
+      console.error(chalk.red(`Error: Could not send stop command to ${remoteUrl}`));
+      process.exit(1);
+    }
+    console.log(chalk.green(`✓ Stop command sent to ${remoteUrl}`));
+    return;
+  }
+
   const pid = readPidFile();
   if (!pid) {
     console.error(chalk.red('Error: No running instance found'));
@@ -350,17 +1028,19 @@ async function handleStop() {
 }
 
 async function handleStatus() {
-  const pid = readPidFile();
-  if (!pid) {
-    console.log(chalk.yellow('No running instance'));
-    return;
-  }
+  const pid = remoteUrl ? undefined : readPidFile();
+  if (!remoteUrl) {
+    if (!pid) {
+      console.log(chalk.yellow('No running instance'));
+      return;
+    }
 
-  try {
-    process.kill(pid, 0); // Check if alive
-  } catch {
-    console.log(chalk.yellow(`Stale PID file (${pid} not running)`));
-    return;
+    try {
+      process.kill(pid, 0); // Check if alive
+    } catch {
+      console.log(chalk.yellow(`Stale PID file (${pid} not running)`));
+      return;
+    }
   }
 
   // Get detailed status via IPC
@@ -369,16 +1049,78 @@ async function handleStatus() {
   if (status) {
     console.log(chalk.bold('gpd-runtime Status'));
     console.log('');
-    console.log(`  Master PID:  ${chalk.green(pid)}`);
+    console.log(`  Master PID:  ${chalk.green(status.pid ?? pid)}`);
     console.log(`  App:         ${status.appFile}`);
-    console.log(`  Workers:     ${status.workers.length}`);
+    const target = status.scale && status.scale.target !== status.workers.length ? ` (target ${status.scale.target})` : '';
+    console.log(`  Workers:     ${status.workers.length}${target}`);
     console.log(`  Uptime:      ${formatUptime(status.startTime)}`);
+    const port = readPortFile();
+    if (port && !remoteUrl) {
+      const token = readTokenFile();
+      const protocol = status.ipcTls ? 'https' : 'http';
+      console.log(`  Dashboard:   ${protocol}://127.0.0.1:${port}/${token ? `#token=${token}` : ''}`);
+    }
+    if (status.generation) {
+      console.log(`  Generation:  ${status.generation}`);
+    }
+    if (status.lastReload) {
+      const reload = status.lastReload;
+      const reloadState = reload.ok
+        ? chalk.green('succeeded')
+        : chalk.red(`failed: ${reload.error || 'unknown error'}${reload.rolledBack ? ' (rolled back)' : ''}`);
+      console.log(`  Last reload: ${reloadState} (${formatUptime(reload.endTime)} ago)`);
+    }
+    if (status.schedule?.nextRun) {
+      const { cron, nextRun, nextTrigger } = status.schedule;
+      const source = nextTrigger === 'max-age' ? 'max worker age' : cron;
+      console.log(`  Scheduled:   ${new Date(nextRun).toLocaleString()} ${chalk.gray(`(${source})`)}`);
+    }
+    if (status.autoscale) {
+      const { minWorkers, maxWorkers, lastSample, lastDecision } = status.autoscale;
+      const load = lastSample ? chalk.gray(` - avg CPU ${lastSample.cpuPercent}%${lastSample.memoryMB !== undefined ? `, ${lastSample.memoryMB} MB` : ''}`) : '';
+      console.log(`  Autoscale:   ${minWorkers}-${maxWorkers} workers${load}`);
+      if (lastDecision) {
+        console.log(chalk.gray(`               last: ${lastDecision.from} → ${lastDecision.target} (${lastDecision.reason}, ${formatUptime(lastDecision.time)} ago)`));
+      }
+    }
+    for (const webhook of status.webhooks || []) {
+      const failed = webhook.failed ? chalk.red(`, ${webhook.failed} failed`) : '';
+      console.log(`  Webhook:     ${webhook.target} ${chalk.gray(`(${webhook.delivered} delivered`)}${failed}${chalk.gray(')')}`);
+      if (webhook.lastError) {
+        const { event, error, time } = webhook.lastError;
+        console.log(chalk.gray(`               last error: ${event} - ${error} (${formatUptime(time)} ago)`));
+      }
+    }
+    if (status.releases && status.releases.length > 1) {
+      console.log('');
+      console.log(chalk.bold('  Releases:'));
+      status.releases.forEach((release, i) => {
+        const marker = i === 0 ? chalk.green('*') : ' ';
+        console.log(`    ${marker} ${release.appFile} ${chalk.gray(`(gen ${release.generation}, ${formatUptime(release.activatedAt)} ago)`)}`);
+      });
+    }
     console.log('');
     console.log(chalk.bold('  Workers:'));
     for (const w of status.workers) {
-      const stateColor = w.state === 'ready' ? chalk.green : chalk.yellow;
-      console.log(`    [${w.id}] PID ${w.pid} - ${stateColor(w.state)} (${formatUptime(w.startTime)})`);
+      const stateColor = w.state === 'ready' ? chalk.green : w.state === 'errored' ? chalk.red : chalk.yellow;
+      const restarts = w.restarts ? chalk.gray(`, ${w.restarts} restarts, last: ${w.lastRestartReason}`) : '';
+      const health = w.health && !w.health.healthy ? chalk.red(` unhealthy (${w.health.failures} failed checks)`) : '';
+      const state = w.inFlight ? `${w.state} (${w.inFlight.requests} in-flight)` : w.state;
+      console.log(`    [${w.id}] PID ${w.pid} - ${stateColor(state)}${health} (${formatUptime(w.startTime)}${restarts})`);
+    }
+    if (status.failedWorkers && status.failedWorkers.length > 0) {
+      // Output of the most recent failure only
+      const failures = status.failedWorkers;
+      console.log('');
+      console.log(chalk.bold('  Failed workers:'));
+      for (const failure of failures.slice(0, -1)) {
+        console.log(chalk.gray(`    Worker ${failure.workerId} (PID ${failure.pid}) ${failure.reason} (${formatUptime(failure.time)} ago)`));
+      }
+      printWorkerFailure(failures[failures.length - 1], 10, '    ');
     }
+  } else if (remoteUrl) {
+    console.error(chalk.red(`Error: Could not get status from ${remoteUrl} (check --ca and GPDD_TOKEN)`));
+    process.exit(1);
   } else {
     // Fallback: just show PID
     console.log(chalk.bold('gpd-runtime Status'));
@@ -388,6 +1130,56 @@ async function handleStatus() {
   }
 }
 
+async function handleEvents() {
+  const pid = remoteUrl ? undefined : readPidFile();
+  if (!remoteUrl && !pid) {
+    console.error(chalk.red('Error: No running instance found'));
+    process.exit(1);
+  }
+
+  // --json keeps stdout to one event per line
+  if (!values.json) {
+    console.log(chalk.gray(`Streaming events from ${remoteUrl || `PID ${pid}`} (Ctrl+C to stop)...`));
+  }
+
+  try {
+    await streamEvents((event) => {
+      if (values.json) {
+        console.log(JSON.stringify(event));
+        return;
+      }
+      const time = new Date(event.time).toLocaleTimeString();
+      console.log(`${chalk.gray(time)} ${eventColor(event)(event.type.padEnd(17))} ${describeEvent(event)}`);
+    });
+  } catch (error) {
+    console.error(chalk.red(`Error: Could not stream events from ${remoteUrl || `PID ${pid}`}: ${(error as Error).message}`));
+    process.exit(1);
+  }
+
+  if (!values.json) {
+    console.log(chalk.yellow('Event stream closed by master'));
+  }
+}
+
+function eventColor(event: GpddEvent): (text: string) => string {
+  switch (event.type) {
+    case 'worker:ready':
+    case 'reload:completed':
+    case 'health:recovered':
+      return chalk.green;
+    case 'reload:failed':
+    case 'health:failed':
+      return chalk.red;
+    case 'worker:exited':
+      return event.expected ? chalk.gray : chalk.red;
+    case 'reload:step':
+    case 'worker:draining':
+      return chalk.gray;
+    default:
+      return chalk.blue;
+  }
+}
+
 function formatUptime(startTime: number): string {
   const seconds = Math.floor((Date.now() - startTime) / 1000);
   if (seconds < 60) return `${seconds}s`;
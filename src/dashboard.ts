@@ -140,6 +140,13 @@ export function getDashboardHTML(port: number): string {
     
     .workers-table tr:last-child td { border-bottom: none; }
     
+    .sparkline {
+      display: block;
+      width: 100%;
+      height: 40px;
+      margin-top: 1rem;
+    }
+    
     .worker-state {
       display: inline-flex;
       align-items: center;
@@ -152,6 +159,22 @@ export function getDashboardHTML(port: number): string {
     .worker-state.ready { background: rgba(63, 185, 80, 0.15); color: var(--green); }
     .worker-state.starting { background: rgba(210, 153, 34, 0.15); color: var(--yellow); }
     .worker-state.draining { background: rgba(248, 81, 73, 0.15); color: var(--red); }
+    .worker-state.restarting { background: rgba(210, 153, 34, 0.15); color: var(--yellow); }
+    .worker-state.errored { background: rgba(248, 81, 73, 0.3); color: var(--red); font-weight: 600; }
+    
+    .events-list {
+      list-style: none;
+      font-size: 0.875rem;
+    }
+    
+    .events-list li {
+      padding: 0.375rem 0;
+      border-bottom: 1px solid var(--border);
+    }
+    
+    .events-list li:last-child { border-bottom: none; }
+    .events-list time { color: var(--text-muted); margin-right: 0.75rem; }
+    .events-list .failed { color: var(--red); }
     
     .actions {
       display: flex;
@@ -243,8 +266,23 @@ export function getDashboardHTML(port: number): string {
   <div id="toast" class="toast"></div>
   
   <script>
-    const API_BASE = 'http://127.0.0.1:${port}';
+    // Same origin when served by the master (also remote and over https)
+    const API_BASE = location.protocol.startsWith('http') ? location.origin : 'http://127.0.0.1:${port}';
     let lastStatus = null;
+    let lastHealth = [];
+    // Most recent lifecycle events (newest first)
+    let events = [];
+    let refreshTimer = null;
+    
+    // Token from the link printed by \`gpdd status\` (#token=...), kept for this tab
+    const tokenMatch = location.hash.match(/token=([^&]+)/);
+    if (tokenMatch) {
+      sessionStorage.setItem('gpdd-token', tokenMatch[1]);
+      history.replaceState(null, '', location.pathname);
+    }
+    const AUTH_HEADERS = sessionStorage.getItem('gpdd-token')
+      ? { Authorization: 'Bearer ' + sessionStorage.getItem('gpdd-token') }
+      : {};
     
     function formatUptime(startTime) {
       const seconds = Math.floor((Date.now() - startTime) / 1000);
@@ -275,20 +313,92 @@ export function getDashboardHTML(port: number): string {
     
     async function fetchStatus() {
       try {
-        const res = await fetch(API_BASE + '/status');
+        const res = await fetch(API_BASE + '/status', { headers: AUTH_HEADERS });
+        if (res.status === 401) {
+          showToast('Unauthorized - open the dashboard link from gpdd status', 'error');
+          throw new Error('unauthorized');
+        }
         const status = await res.json();
         lastStatus = status;
+        const healthRes = await fetch(API_BASE + '/health/history', { headers: AUTH_HEADERS });
+        lastHealth = healthRes.ok ? (await healthRes.json()).checks : [];
         updateConnectionStatus(true);
-        renderStatus(status);
+        renderStatus(status, lastHealth);
       } catch (e) {
         updateConnectionStatus(false);
         renderError();
       }
     }
     
+    // Lifecycle events (GET /events) - EventSource cannot send headers, so the token goes into the URL
+    function connectEvents() {
+      const token = sessionStorage.getItem('gpdd-token');
+      const source = new EventSource(API_BASE + '/events' + (token ? '?token=' + encodeURIComponent(token) : ''));
+      source.onopen = () => fetchStatus();
+      source.onerror = () => updateConnectionStatus(false);
+      source.onmessage = (message) => {
+        const event = JSON.parse(message.data);
+        events = [event, ...events.filter(e => e.id !== event.id)].slice(0, 20);
+        if (event.type === 'reload:completed') showToast('Reload completed');
+        if (event.type === 'reload:failed') showToast('Reload failed: ' + event.error, 'error');
+        // Bursts of events (e.g. a reload) refresh the status once
+        if (!refreshTimer) {
+          refreshTimer = setTimeout(() => {
+            refreshTimer = null;
+            fetchStatus();
+          }, 250);
+        }
+      };
+    }
+    
+    function describeEvent(event) {
+      const worker = event.workerId !== undefined ? 'worker ' + event.workerId : '';
+      switch (event.type) {
+        case 'worker:exited':
+          return worker + ' (' + (event.signal ? 'signal ' + event.signal : 'code ' + event.code) + ')' +
+            (event.expected ? '' : ' unexpectedly');
+        case 'reload:started': return event.jobId + ' (' + event.trigger + ')';
+        case 'reload:step': return event.jobId + ': ' + event.message;
+        case 'reload:completed': return event.jobId + ' (' + event.replaced + '/' + event.total + ' workers)';
+        case 'reload:failed': return event.jobId + ': ' + event.error;
+        case 'health:failed':
+          return event.check + (worker ? ' ' + worker : '') + ' (' + event.failures + '/' + event.threshold + ')' +
+            (event.error ? ': ' + event.error : '');
+        case 'health:recovered': return event.check + (worker ? ' ' + worker : '');
+        case 'scale:changed': return event.from + ' → ' + event.to + ' workers';
+        case 'master:shutdown': return event.reason;
+        default: return worker + (event.pid ? ' (PID ' + event.pid + ')' : '');
+      }
+    }
+    
+    function escapeHtml(text) {
+      return String(text).replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c]);
+    }
+    
+    function renderEvents() {
+      if (events.length === 0) return '';
+      const failed = e => e.type.endsWith(':failed') || (e.type === 'worker:exited' && !e.expected);
+      return \`
+        <div class="card">
+          <div class="card-header">
+            <h2>Recent Events</h2>
+          </div>
+          <div class="card-body">
+            <ul class="events-list">
+              \${events.map(e => \`
+                <li class="\${failed(e) ? 'failed' : ''}">
+                  <time>\${new Date(e.time).toLocaleTimeString()}</time>\${e.type} \${escapeHtml(describeEvent(e))}
+                </li>
+              \`).join('')}
+            </ul>
+          </div>
+        </div>
+      \`;
+    }
+    
     async function sendCommand(cmd) {
       try {
-        const res = await fetch(API_BASE + '/' + cmd, { method: 'POST' });
+        const res = await fetch(API_BASE + '/' + cmd, { method: 'POST', headers: AUTH_HEADERS });
         const data = await res.json();
         if (data.ok) {
           showToast(cmd.charAt(0).toUpperCase() + cmd.slice(1) + ' command sent');
@@ -301,15 +411,66 @@ export function getDashboardHTML(port: number): string {
       }
     }
     
-    function renderStatus(status) {
+    // Latency line of recent health checks, failed checks as red dots
+    function renderSparkline(entries) {
+      if (entries.length < 2) return '';
+      const max = Math.max(...entries.map(e => e.latencyMs || 0), 1);
+      const x = i => (i / (entries.length - 1)) * 100;
+      const y = e => 38 - ((e.latencyMs || 0) / max) * 36;
+      const points = entries.map((e, i) => x(i).toFixed(1) + ',' + y(e).toFixed(1)).join(' ');
+      const failures = entries.map((e, i) => e.healthy ? '' :
+        '<circle cx="' + x(i).toFixed(1) + '" cy="' + y(e).toFixed(1) + '" r="1.5" fill="var(--red)" />').join('');
+      return '<svg class="sparkline" viewBox="0 0 100 40" preserveAspectRatio="none">' +
+        '<polyline points="' + points + '" fill="none" stroke="var(--green)" stroke-width="1" vector-effect="non-scaling-stroke" />' +
+        failures + '</svg>';
+    }
+    
+    function renderHealth(checks) {
+      if (!checks || checks.length === 0) return '';
+      return \`
+        <div class="card">
+          <div class="card-header">
+            <h2>Health Checks</h2>
+          </div>
+          \${checks.map(renderHealthCheck).join('')}
+        </div>
+      \`;
+    }
+    
+    function renderHealthCheck(health) {
+      const { stats } = health;
+      const ms = v => v === undefined ? '-' : v + 'ms';
+      return \`
+          <div class="card-body">
+            <div class="info-grid">
+              <div class="info-item">
+                <label>\${escapeHtml(health.name)} (\${escapeHtml(health.action)})</label>
+                <value style="font-size: 0.875rem; word-break: break-all;">\${escapeHtml(health.target)}</value>
+              </div>
+              <div class="info-item">
+                <label>Success Rate</label>
+                <value>\${stats.successRate}%</value>
+              </div>
+              <div class="info-item">
+                <label>p50 / p95 / p99</label>
+                <value>\${ms(stats.p50)} / \${ms(stats.p95)} / \${ms(stats.p99)}</value>
+              </div>
+            </div>
+            \${renderSparkline(health.entries)}
+          </div>
+      \`;
+    }
+    
+    function renderStatus(status, health) {
       const app = document.getElementById('app');
       
       const workersHTML = status.workers.map(w => \`
         <tr>
           <td>#\${w.id}</td>
           <td>\${w.pid}</td>
-          <td><span class="worker-state \${w.state}">\${w.state}</span></td>
+          <td><span class="worker-state \${w.state}">\${w.state}\${w.inFlight ? ' (' + w.inFlight.requests + ' in-flight)' : ''}</span></td>
           <td>\${formatUptime(w.startTime)}</td>
+          <td title="\${w.lastRestartReason || ''}">\${w.restarts || 0}</td>
         </tr>
       \`).join('');
       
@@ -330,7 +491,7 @@ export function getDashboardHTML(port: number): string {
               </div>
               <div class="info-item">
                 <label>Workers</label>
-                <value>\${status.workers.length}</value>
+                <value>\${status.workers.length}\${status.scale && status.scale.target !== status.workers.length ? ' → ' + status.scale.target : ''}</value>
               </div>
               <div class="info-item">
                 <label>Uptime</label>
@@ -344,6 +505,10 @@ export function getDashboardHTML(port: number): string {
           </div>
         </div>
         
+        \${renderHealth(health)}
+        
+        \${renderEvents()}
+        
         <div class="card">
           <div class="card-header">
             <h2>Workers</h2>
@@ -356,10 +521,11 @@ export function getDashboardHTML(port: number): string {
                   <th>PID</th>
                   <th>State</th>
                   <th>Uptime</th>
+                  <th>Restarts</th>
                 </tr>
               </thead>
               <tbody>
-                \${workersHTML || '<tr><td colspan="4" style="text-align:center;color:var(--text-muted)">No workers</td></tr>'}
+                \${workersHTML || '<tr><td colspan="5" style="text-align:center;color:var(--text-muted)">No workers</td></tr>'}
               </tbody>
             </table>
           </div>
@@ -375,6 +541,12 @@ export function getDashboardHTML(port: number): string {
                 <label>Full Path</label>
                 <value style="font-size: 0.875rem; word-break: break-all;">\${status.appFile}</value>
               </div>
+              \${status.schedule && status.schedule.nextRun ? \`
+              <div class="info-item">
+                <label>Next Restart</label>
+                <value>\${new Date(status.schedule.nextRun).toLocaleString()}</value>
+              </div>
+              \` : ''}
             </div>
           </div>
         </div>
@@ -393,9 +565,10 @@ export function getDashboardHTML(port: number): string {
       \`;
     }
     
-    // Initial fetch and polling
+    // Initial fetch, then refreshed on events; the slow poll keeps uptime and memory current
     fetchStatus();
-    setInterval(fetchStatus, 2000);
+    connectEvents();
+    setInterval(fetchStatus, 10000);
   </script>
 </body>
 </html>`;
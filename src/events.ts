@@ -0,0 +1,101 @@
+/**
+ * Lifecycle Events
+ *
+ * Typed events about workers, reloads, health checks and scaling, streamed
+ * to clients as Server-Sent Events (GET /events). The most recent events are
+ * kept so a client that reconnects with Last-Event-ID misses nothing.
+ */
+
+export type GpddEventData =
+  | { type: 'worker:forked'; workerId: number; pid: number; generation: number }
+  | { type: 'worker:ready'; workerId: number; pid: number }
+  | { type: 'worker:draining'; workerId: number; pid: number }
+  /** expected: drained by reload, scale-down or shutdown (false for crashes and killed workers) */
+  | { type: 'worker:exited'; workerId?: number; pid: number; code: number | null; signal: string | null; expected: boolean }
+  | { type: 'reload:started'; jobId: string; trigger: string }
+  | { type: 'reload:step'; jobId: string; message: string; workerId?: number }
+  | { type: 'reload:completed'; jobId: string; replaced: number; total: number; durationMs: number }
+  | { type: 'reload:failed'; jobId: string; error: string; rolledBack: boolean }
+  /** workerId: per-worker check (--worker-health) */
+  | { type: 'health:failed'; check: string; workerId?: number; failures: number; threshold: number; error?: string }
+  | { type: 'health:recovered'; check: string; workerId?: number }
+  | { type: 'scale:changed'; from: number; to: number }
+  /** reason: signal name, ipc or health-check */
+  | { type: 'master:shutdown'; reason: string };
+
+export type GpddEvent = GpddEventData & {
+  /** Increasing per master, used as SSE event ID */
+  id: number;
+  time: number;
+};
+
+export type GpddEventType = GpddEvent['type'];
+
+type EventListener = (event: GpddEvent) => void;
+
+const MAX_EVENTS = 200; // Kept for clients that reconnect
+
+const recentEvents: GpddEvent[] = [];
+const listeners: Set<EventListener> = new Set();
+let lastEventId = 0;
+
+/**
+ * Publish an event to all subscribers
+ */
+export function emitEvent(data: GpddEventData): void {
+  const event = { ...data, id: ++lastEventId, time: Date.now() } as GpddEvent;
+  recentEvents.push(event);
+  if (recentEvents.length > MAX_EVENTS) recentEvents.shift();
+
+  for (const listener of listeners) {
+    listener(event);
+  }
+}
+
+/**
+ * Receive events as they are emitted
+ * @param afterId Replay kept events newer than this ID first (Last-Event-ID)
+ * @returns function to unsubscribe
+ */
+export function subscribeEvents(listener: EventListener, afterId?: number): () => void {
+  if (afterId !== undefined) {
+    recentEvents.filter(e => e.id > afterId).forEach(listener);
+  }
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * One-line description of an event (e.g. for `gpdd events`)
+ */
+export function describeEvent(event: GpddEventData): string {
+  switch (event.type) {
+    case 'worker:forked':
+      return `Worker ${event.workerId} forked (PID ${event.pid}, gen ${event.generation})`;
+    case 'worker:ready':
+      return `Worker ${event.workerId} ready (PID ${event.pid})`;
+    case 'worker:draining':
+      return `Worker ${event.workerId} draining (PID ${event.pid})`;
+    case 'worker:exited': {
+      const exit = event.signal ? `signal ${event.signal}` : `code ${event.code}`;
+      return `Worker ${event.workerId ?? '?'} exited (PID ${event.pid}, ${exit})${event.expected ? '' : ' unexpectedly'}`;
+    }
+    case 'reload:started':
+      return `Reload ${event.jobId} started (${event.trigger})`;
+    case 'reload:step':
+      return `Reload ${event.jobId}: ${event.message}`;
+    case 'reload:completed':
+      return `Reload ${event.jobId} completed (${event.replaced}/${event.total} workers, ${(event.durationMs / 1000).toFixed(1)}s)`;
+    case 'reload:failed':
+      return `Reload ${event.jobId} failed: ${event.error}${event.rolledBack ? ' (rolled back)' : ''}`;
+    case 'health:failed':
+      return `Health check "${event.check}"${event.workerId !== undefined ? ` of worker ${event.workerId}` : ''} failed ` +
+        `(${event.failures}/${event.threshold})${event.error ? `: ${event.error}` : ''}`;
+    case 'health:recovered':
+      return `Health check "${event.check}"${event.workerId !== undefined ? ` of worker ${event.workerId}` : ''} recovered`;
+    case 'scale:changed':
+      return `Scaling from ${event.from} to ${event.to} workers`;
+    case 'master:shutdown':
+      return `Master shutting down (${event.reason})`;
+  }
+}
@@ -3,15 +3,47 @@
  * 
  * Periodically polls a health endpoint and reports unhealthy workers.
  * The master can use this to restart workers that are stuck or unhealthy.
+ * Individual workers can also be checked over IPC ('health' → 'healthy').
  */
 
 import http from 'node:http';
 import https from 'node:https';
+import net from 'node:net';
+import { exec } from 'node:child_process';
+import type { Worker } from 'node:cluster';
 import chalk from 'chalk';
+import { parseWorkerMessage } from './protocol.js';
+import { emitEvent } from './events.js';
+
+/**
+ * 'http': request the URL and check status (and optional assertions)
+ * 'tcp': the port accepts connections
+ * 'exec': the command exits with code 0
+ */
+export type HealthCheckType = 'http' | 'tcp' | 'exec';
+
+/**
+ * What happens once a check reaches its threshold:
+ * 'reload' all workers, 'restart-worker' (replace the oldest worker),
+ * 'notify-only' (log only) or 'stop' the master
+ */
+export type HealthAction = 'reload' | 'restart-worker' | 'notify-only' | 'stop';
 
 export interface HealthCheckOptions {
-  /** Health endpoint URL (e.g., "http://localhost:3000/health") */
-  url: string;
+  /** Name of the check, e.g. "liveness" or "db" (default: "health") */
+  name?: string;
+  /** Action once the threshold is reached (default: reload) */
+  action?: HealthAction;
+  /** Check type (default: http) */
+  type?: HealthCheckType;
+  /** Health endpoint URL for http checks (e.g., "http://localhost:3000/health") */
+  url?: string;
+  /** Host for tcp checks (default: 127.0.0.1) */
+  host?: string;
+  /** Port for tcp checks */
+  port?: number;
+  /** Shell command for exec checks */
+  command?: string;
   /** Check interval in ms (default: 30000) */
   interval?: number;
   /** Request timeout in ms (default: 5000) */
@@ -20,8 +52,17 @@ export interface HealthCheckOptions {
   threshold?: number;
   /** Expected HTTP status code (default: 200) */
   expectedStatus?: number;
+  /** HTTP: required response header, optionally with value ("x-db" or "x-db: ok") */
+  expectHeader?: string;
+  /** HTTP: substring the response body must contain */
+  expectBody?: string;
+  /** HTTP: JSON path assertion on the response body (e.g. '$.db == "ok"') */
+  expectJson?: string;
 }
 
+/** Assertions on an HTTP health response besides the status code */
+export type HttpAssertions = Pick<HealthCheckOptions, 'expectHeader' | 'expectBody' | 'expectJson'>;
+
 export interface HealthCheckResult {
   healthy: boolean;
   status?: number;
@@ -29,12 +70,48 @@ export interface HealthCheckResult {
   latencyMs?: number;
 }
 
-type HealthCheckCallback = (result: HealthCheckResult) => void;
+/** A check result with the time it was taken */
+export type HealthHistoryEntry = HealthCheckResult & { time: number };
+
+/** Latency percentiles and success rate over the recorded results */
+export interface HealthStats {
+  count: number;
+  /** Share of healthy results in percent */
+  successRate: number;
+  p50?: number;
+  p95?: number;
+  p99?: number;
+}
+
+export interface HealthHistory {
+  name: string;
+  action: HealthAction;
+  /** What is checked (URL, tcp host:port or exec command) */
+  target: string;
+  /** Recorded results, oldest first */
+  entries: HealthHistoryEntry[];
+  stats: HealthStats;
+}
+
+export interface WorkerHealthCheckOptions {
+  /** Check interval in ms (default: 30000) */
+  interval?: number;
+  /** Time a worker has to answer in ms (default: 5000) */
+  timeout?: number;
+  /** Consecutive failures before the worker is replaced (default: 3) */
+  threshold?: number;
+}
+
+/** Health of a single worker (IPC checks) */
+export interface WorkerHealth {
+  healthy: boolean;
+  /** Consecutive failed checks */
+  failures: number;
+  /** Most recent checks, oldest first */
+  history: HealthHistoryEntry[];
+}
 
-let checkInterval: NodeJS.Timeout | null = null;
-let failureCount = 0;
-let options: Required<HealthCheckOptions>;
-let onUnhealthy: HealthCheckCallback | null = null;
+type HealthCheckCallback = (result: HealthCheckResult, checker: HealthChecker) => void;
 
 const DEFAULT_OPTIONS = {
   interval: 30000,
@@ -43,62 +120,369 @@ const DEFAULT_OPTIONS = {
   expectedStatus: 200,
 };
 
+const MAX_BODY_SIZE = 64 * 1024; // Response body read for assertions
+const HISTORY_SIZE = parseInt(process.env.GPDD_HEALTH_HISTORY || '100', 10);
+const HEALTH_ACTIONS: HealthAction[] = ['reload', 'restart-worker', 'notify-only', 'stop'];
+
+/** Running checks by name */
+const checkers: Map<string, HealthChecker> = new Map();
+
 /**
- * Start periodic health checks
+ * A named health check running on its own interval, with its own threshold,
+ * action and result history
+ */
+export class HealthChecker {
+  readonly name: string;
+  readonly action: HealthAction;
+  readonly options: HealthCheckOptions & typeof DEFAULT_OPTIONS;
+  private startTimer: NodeJS.Timeout | null = null;
+  private checkInterval: NodeJS.Timeout | null = null;
+  private failureCount = 0;
+  /** Ring buffer of recent results (oldest first) */
+  private history: HealthHistoryEntry[] = [];
+
+  constructor(opts: HealthCheckOptions, private onUnhealthy: HealthCheckCallback) {
+    this.options = { ...DEFAULT_OPTIONS, ...opts };
+    this.name = opts.name || 'health';
+    this.action = opts.action || 'reload';
+  }
+
+  start(): void {
+    console.log(chalk.blue(
+      `Health check "${this.name}": ${describeHealthCheck(this.options)} ` +
+      `(every ${this.options.interval / 1000}s, on failure: ${this.action})`
+    ));
+
+    // Initial check after a short delay (let workers start)
+    this.startTimer = setTimeout(() => {
+      this.startTimer = null;
+      this.performCheck();
+      this.checkInterval = setInterval(() => this.performCheck(), this.options.interval);
+    }, 5000);
+  }
+
+  stop(): void {
+    if (this.startTimer) {
+      clearTimeout(this.startTimer);
+      this.startTimer = null;
+    }
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+  }
+
+  /**
+   * Recent results with latency percentiles
+   */
+  getHistory(): HealthHistory {
+    return {
+      name: this.name,
+      action: this.action,
+      target: describeHealthCheck(this.options),
+      entries: [...this.history],
+      stats: getHealthStats(this.history),
+    };
+  }
+
+  /**
+   * Perform a single health check
+   */
+  private async performCheck(): Promise<void> {
+    const result = await runHealthCheck(this.options);
+    if (!this.checkInterval) return; // Stopped meanwhile
+
+    this.history.push({ ...result, time: Date.now() });
+    if (this.history.length > HISTORY_SIZE) this.history.shift();
+
+    if (result.healthy) {
+      if (this.failureCount > 0) {
+        console.log(chalk.green(`Health check "${this.name}" recovered (${result.latencyMs}ms)`));
+        emitEvent({ type: 'health:recovered', check: this.name });
+      }
+      this.failureCount = 0;
+    } else {
+      this.failureCount++;
+      console.log(
+        chalk.yellow(
+          `Health check "${this.name}" failed (${this.failureCount}/${this.options.threshold}): ${result.error || `status ${result.status}`}`
+        )
+      );
+      emitEvent({
+        type: 'health:failed',
+        check: this.name,
+        failures: this.failureCount,
+        threshold: this.options.threshold,
+        error: result.error || `status ${result.status}`,
+      });
+
+      if (this.failureCount >= this.options.threshold) {
+        console.log(chalk.red(`Health check "${this.name}" threshold reached (action: ${this.action})`));
+        this.onUnhealthy(result, this);
+        this.failureCount = 0; // Reset after trigger
+      }
+    }
+  }
+}
+
+/**
+ * Start a periodic health check (several checks with different names can run at once)
+ * @throws Error if a check with the same name is already running
  */
 export function startHealthCheck(
   opts: HealthCheckOptions,
   callback: HealthCheckCallback
-): void {
-  options = { ...DEFAULT_OPTIONS, ...opts };
-  onUnhealthy = callback;
-  failureCount = 0;
-
-  console.log(chalk.blue(`Health check: ${options.url} (every ${options.interval / 1000}s)`));
+): HealthChecker {
+  const checker = new HealthChecker(opts, callback);
+  if (checkers.has(checker.name)) {
+    throw new Error(`duplicate health check name "${checker.name}"`);
+  }
 
-  // Initial check after a short delay (let workers start)
-  setTimeout(() => {
-    performCheck();
-    checkInterval = setInterval(performCheck, options.interval);
-  }, 5000);
+  checkers.set(checker.name, checker);
+  checker.start();
+  return checker;
 }
 
 /**
- * Stop health checks
+ * Stop all health checks
  */
 export function stopHealthCheck(): void {
-  if (checkInterval) {
-    clearInterval(checkInterval);
-    checkInterval = null;
+  for (const checker of checkers.values()) {
+    checker.stop();
   }
-  onUnhealthy = null;
+  checkers.clear();
 }
 
 /**
- * Perform a single health check
+ * Recent results of all running health checks
  */
-async function performCheck(): Promise<void> {
-  const result = await checkHealth(options.url, options.timeout, options.expectedStatus);
+export function getHealthHistory(): HealthHistory[] {
+  return Array.from(checkers.values()).map(c => c.getHistory());
+}
 
-  if (result.healthy) {
-    if (failureCount > 0) {
-      console.log(chalk.green(`Health check recovered (${result.latencyMs}ms)`));
+/**
+ * Success rate and latency percentiles (nearest rank) of check results
+ */
+export function getHealthStats(entries: HealthHistoryEntry[]): HealthStats {
+  const latencies = entries
+    .map(e => e.latencyMs)
+    .filter((l): l is number => l !== undefined)
+    .sort((a, b) => a - b);
+  const percentile = (p: number) =>
+    latencies.length ? latencies[Math.max(0, Math.ceil((p / 100) * latencies.length) - 1)] : undefined;
+  const healthy = entries.filter(e => e.healthy).length;
+
+  return {
+    count: entries.length,
+    successRate: entries.length ? Math.round((healthy / entries.length) * 1000) / 10 : 100,
+    p50: percentile(50),
+    p95: percentile(95),
+    p99: percentile(99),
+  };
+}
+
+/**
+ * Run a check of any type once
+ */
+export function runHealthCheck(check: HealthCheckOptions): Promise<HealthCheckResult> {
+  const timeout = check.timeout ?? DEFAULT_OPTIONS.timeout;
+
+  switch (check.type || 'http') {
+    case 'tcp':
+      return checkTcp(check.host || '127.0.0.1', check.port!, timeout);
+    case 'exec':
+      return checkExec(check.command!, timeout);
+    default:
+      return checkHealth(check.url!, timeout, check.expectedStatus ?? DEFAULT_OPTIONS.expectedStatus, check);
+  }
+}
+
+/**
+ * Human-readable check target for logs
+ */
+export function describeHealthCheck(check: HealthCheckOptions): string {
+  switch (check.type || 'http') {
+    case 'tcp':
+      return `tcp ${check.host || '127.0.0.1'}:${check.port}`;
+    case 'exec':
+      return `exec "${check.command}"`;
+    default:
+      return check.url!;
+  }
+}
+
+/**
+ * Validate check options
+ * @throws Error if required settings for the check type are missing
+ */
+export function validateHealthCheck(check: HealthCheckOptions): void {
+  const type = check.type || 'http';
+  if (type !== 'http' && type !== 'tcp' && type !== 'exec') {
+    throw new Error(`unknown health check type "${type}" (expected http, tcp or exec)`);
+  }
+  if (type === 'http' && !check.url) throw new Error('http health check needs a url');
+  if (type === 'tcp' && check.port === undefined) throw new Error('tcp health check needs a port');
+  if (type === 'exec' && !check.command) throw new Error('exec health check needs a command');
+  // Values from a config file may be strings or negative, parseInt() gives NaN for garbage
+  if (check.port !== undefined && !(Number.isInteger(check.port) && check.port > 0 && check.port <= 65535)) {
+    throw new Error('health check port must be an integer between 1 and 65535');
+  }
+  for (const key of ['interval', 'timeout'] as const) {
+    const value = check[key];
+    if (value !== undefined && !(Number.isFinite(value) && value > 0)) {
+      throw new Error(`health check ${key} must be a positive number`);
     }
-    failureCount = 0;
-  } else {
-    failureCount++;
-    console.log(
-      chalk.yellow(
-        `Health check failed (${failureCount}/${options.threshold}): ${result.error || `status ${result.status}`}`
-      )
-    );
-
-    if (failureCount >= options.threshold && onUnhealthy) {
-      console.log(chalk.red(`Health check threshold reached, triggering callback`));
-      onUnhealthy(result);
-      failureCount = 0; // Reset after trigger
+  }
+  if (check.threshold !== undefined && !(Number.isInteger(check.threshold) && check.threshold > 0)) {
+    throw new Error('health check threshold must be a positive integer');
+  }
+  if (check.expectedStatus !== undefined && !(Number.isInteger(check.expectedStatus) && check.expectedStatus > 0)) {
+    throw new Error('health check status must be a positive integer');
+  }
+  if (check.action && !HEALTH_ACTIONS.includes(check.action)) {
+    throw new Error(`unknown health check action "${check.action}" (expected ${HEALTH_ACTIONS.join(', ')})`);
+  }
+  if (check.expectJson) parseJsonAssertion(check.expectJson);
+}
+
+/**
+ * Parse a health check definition from the command line, e.g.
+ * "name=db,url=http://localhost:3000/db,json=$.db == \"ok\",action=notify-only"
+ * (type is derived from url / port / command unless given)
+ * @throws Error if the definition is invalid
+ */
+export function parseHealthCheckDefinition(definition: string): HealthCheckOptions {
+  const check: HealthCheckOptions = {};
+  const numbers: Record<string, 'port' | 'interval' | 'timeout' | 'threshold' | 'expectedStatus'> = {
+    port: 'port',
+    interval: 'interval',
+    timeout: 'timeout',
+    threshold: 'threshold',
+    status: 'expectedStatus',
+  };
+  const strings: Record<string, 'name' | 'url' | 'host' | 'command' | 'expectHeader' | 'expectBody' | 'expectJson'> = {
+    name: 'name',
+    url: 'url',
+    host: 'host',
+    command: 'command',
+    header: 'expectHeader',
+    body: 'expectBody',
+    json: 'expectJson',
+  };
+
+  // Split on commas that start the next key=value pair, so values may contain commas
+  for (const pair of definition.split(/,(?=\s*[a-z]+=)/)) {
+    const sep = pair.indexOf('=');
+    const key = pair.slice(0, sep).trim();
+    const value = pair.slice(sep + 1).trim();
+
+    if (sep === -1) {
+      throw new Error(`invalid health check definition "${pair}" (expected key=value)`);
+    } else if (key === 'type') {
+      check.type = value as HealthCheckType;
+    } else if (key === 'action') {
+      check.action = value as HealthAction;
+    } else if (numbers[key]) {
+      check[numbers[key]] = parseInt(value, 10);
+    } else if (strings[key]) {
+      check[strings[key]] = value;
+    } else {
+      throw new Error(`unknown health check setting "${key}"`);
     }
   }
+
+  check.type ??= check.command ? 'exec' : check.port && !check.url ? 'tcp' : 'http';
+  validateHealthCheck(check);
+  return check;
+}
+
+/**
+ * Check that a TCP port accepts connections
+ */
+function checkTcp(host: string, port: number, timeout: number): Promise<HealthCheckResult> {
+  return new Promise((resolve) => {
+    const startTime = Date.now();
+    const socket = net.connect({ host, port, timeout });
+
+    const finish = (result: HealthCheckResult) => {
+      socket.destroy();
+      resolve({ ...result, latencyMs: Date.now() - startTime });
+    };
+
+    socket.on('connect', () => finish({ healthy: true }));
+    socket.on('error', (err) => finish({ healthy: false, error: err.message }));
+    socket.on('timeout', () => finish({ healthy: false, error: 'timeout' }));
+  });
+}
+
+/**
+ * Check that a command exits with code 0
+ */
+function checkExec(command: string, timeout: number): Promise<HealthCheckResult> {
+  return new Promise((resolve) => {
+    const startTime = Date.now();
+
+    exec(command, { timeout }, (err, _stdout, stderr) => {
+      const latencyMs = Date.now() - startTime;
+      if (!err) {
+        resolve({ healthy: true, latencyMs });
+        return;
+      }
+
+      const output = stderr.trim().split('\n').pop();
+      const reason = err.killed ? 'timeout' : `exit code ${err.code}`;
+      resolve({ healthy: false, latencyMs, error: output ? `${reason}: ${output}` : reason });
+    });
+  });
+}
+
+/**
+ * Check a single worker over IPC: sends 'health' and waits for 'healthy' or
+ * 'unhealthy' (or a structured gpdd:health message) from that worker
+ */
+export function checkWorkerHealth(worker: Worker, timeout: number): Promise<HealthCheckResult> {
+  return new Promise((resolve) => {
+    const startTime = Date.now();
+
+    const finish = (result: HealthCheckResult) => {
+      clearTimeout(timer);
+      worker.off('message', handler);
+      resolve({ ...result, latencyMs: Date.now() - startTime });
+    };
+
+    const handler = (message: unknown) => {
+      const msg = parseWorkerMessage(message);
+      if (msg?.type === 'gpdd:health') {
+        finish({ healthy: msg.healthy, error: msg.healthy ? undefined : msg.error || 'reported unhealthy' });
+      }
+    };
+
+    const timer = setTimeout(() => finish({ healthy: false, error: 'timeout' }), timeout);
+    worker.on('message', handler);
+
+    try {
+      worker.send('health');
+    } catch (err) {
+      finish({ healthy: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+}
+
+/**
+ * Record a worker check result
+ * @returns the updated health (history capped at `limit` entries)
+ */
+export function recordWorkerHealth(
+  health: WorkerHealth | undefined,
+  result: HealthCheckResult,
+  limit: number = 10
+): WorkerHealth {
+  const history = [...(health?.history || []), { ...result, time: Date.now() }].slice(-limit);
+  return {
+    healthy: result.healthy,
+    failures: result.healthy ? 0 : (health?.failures || 0) + 1,
+    history,
+  };
 }
 
 /**
@@ -107,7 +491,8 @@ async function performCheck(): Promise<void> {
 export function checkHealth(
   url: string,
   timeout: number,
-  expectedStatus: number
+  expectedStatus: number,
+  assertions: HttpAssertions = {}
 ): Promise<HealthCheckResult> {
   return new Promise((resolve) => {
     const startTime = Date.now();
@@ -122,16 +507,33 @@ export function checkHealth(
 
     const req = client.get(url, options, (res) => {
       const latencyMs = Date.now() - startTime;
-      const healthy = res.statusCode === expectedStatus;
 
-      // Consume response body
-      res.resume();
+      if (res.statusCode !== expectedStatus) {
+        // Consume response body
+        res.resume();
+        resolve({ healthy: false, status: res.statusCode, latencyMs, error: `unexpected status ${res.statusCode}` });
+        return;
+      }
 
-      resolve({
-        healthy,
-        status: res.statusCode,
-        latencyMs,
-        error: healthy ? undefined : `unexpected status ${res.statusCode}`,
+      const headerError = checkHeaderAssertion(res.headers, assertions.expectHeader);
+      if (headerError || (!assertions.expectBody && !assertions.expectJson)) {
+        res.resume();
+        resolve({ healthy: !headerError, status: res.statusCode, latencyMs, error: headerError });
+        return;
+      }
+
+      // Body assertions need the (first 64 KB of the) body
+      let body = '';
+      res.setEncoding('utf-8');
+      res.on('data', (chunk: string) => {
+        if (body.length < MAX_BODY_SIZE) body += chunk;
+      });
+      res.on('end', () => {
+        const error = checkBodyAssertions(body, assertions);
+        resolve({ healthy: !error, status: res.statusCode, latencyMs: Date.now() - startTime, error });
+      });
+      res.on('error', (err) => {
+        resolve({ healthy: false, status: res.statusCode, latencyMs: Date.now() - startTime, error: err.message });
       });
     });
 
@@ -153,3 +555,82 @@ export function checkHealth(
     });
   });
 }
+
+/**
+ * Check a header assertion ("name" or "name: value")
+ * @returns error message, or undefined if it holds
+ */
+function checkHeaderAssertion(headers: http.IncomingHttpHeaders, assertion?: string): string | undefined {
+  if (!assertion) return undefined;
+
+  const sep = assertion.indexOf(':');
+  const name = (sep === -1 ? assertion : assertion.slice(0, sep)).trim().toLowerCase();
+  const expected = sep === -1 ? undefined : assertion.slice(sep + 1).trim();
+  const actual = headers[name];
+
+  if (actual === undefined) return `missing header ${name}`;
+  const value = Array.isArray(actual) ? actual.join(', ') : actual;
+  if (expected !== undefined && value !== expected) return `header ${name} is "${value}", expected "${expected}"`;
+  return undefined;
+}
+
+/**
+ * Check body substring and JSON path assertions
+ * @returns error message, or undefined if all hold
+ */
+function checkBodyAssertions(body: string, assertions: HttpAssertions): string | undefined {
+  if (assertions.expectBody && !body.includes(assertions.expectBody)) {
+    return `body does not contain "${assertions.expectBody}"`;
+  }
+
+  if (assertions.expectJson) {
+    const { path, operator, expected } = parseJsonAssertion(assertions.expectJson);
+    let json: unknown;
+    try {
+      json = JSON.parse(body);
+    } catch {
+      return 'body is not valid JSON';
+    }
+
+    const actual = getJsonPath(json, path);
+    const equal = JSON.stringify(actual) === JSON.stringify(expected);
+    if (operator === '==' && !equal) return `${assertions.expectJson} failed (got ${JSON.stringify(actual)})`;
+    if (operator === '!=' && equal) return `${assertions.expectJson} failed`;
+    if (!operator && !actual) return `${path} is ${JSON.stringify(actual)}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse '$.path', '$.path == value' or '$.path != value' (value as JSON, e.g. "ok", 1, true)
+ * @throws Error if the assertion is invalid
+ */
+function parseJsonAssertion(assertion: string): { path: string; operator?: '==' | '!='; expected?: unknown } {
+  const match = assertion.match(/^\s*(\$[^\s=!]*)\s*(?:(==|!=)\s*(.+?))?\s*$/);
+  if (!match) throw new Error(`invalid JSON assertion "${assertion}" (expected e.g. '$.db == "ok"')`);
+
+  const [, path, operator, raw] = match;
+  let expected: unknown = raw;
+  if (raw !== undefined) {
+    try {
+      expected = JSON.parse(raw);
+    } catch {
+      // Unquoted string
+    }
+  }
+  return { path, operator: operator as '==' | '!=' | undefined, expected };
+}
+
+/**
+ * Resolve a simple JSON path ($.a.b[0].c)
+ */
+function getJsonPath(value: unknown, path: string): unknown {
+  const keys = path.slice(1).match(/[^.[\]]+/g) || [];
+  let current = value;
+  for (const key of keys) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
@@ -0,0 +1,115 @@
+/**
+ * Reload Hooks
+ *
+ * Shell commands that run around a reload: preReload before any new worker
+ * is forked (a non-zero exit aborts the reload), postReload after a
+ * successful reload and onReloadFailed after a failed one. Hook output is
+ * passed through to the master log with a [hook] prefix.
+ */
+
+import { spawn } from 'node:child_process';
+import chalk from 'chalk';
+
+export type HookName = 'preReload' | 'postReload' | 'onReloadFailed';
+
+export interface ReloadHooks {
+  /** Runs before the reload forks new workers; a non-zero exit aborts the reload */
+  preReload?: string;
+  /** Runs after a successful reload */
+  postReload?: string;
+  /** Runs after a failed reload */
+  onReloadFailed?: string;
+  /** Kill a hook that runs longer than this (ms, default: 300000) */
+  timeout?: number;
+}
+
+export interface HookResult {
+  hook: HookName;
+  command: string;
+  ok: boolean;
+  /** Exit code (null if the hook was killed) */
+  exitCode: number | null;
+  durationMs: number;
+  /** Last lines of stdout/stderr */
+  output: string[];
+  error?: string;
+}
+
+const DEFAULT_TIMEOUT = 300000;
+const OUTPUT_LINES = 50;
+
+/**
+ * Run a hook command in a shell
+ * @param env Extra environment variables (e.g. GPDD_RELOAD_JOB)
+ */
+export function runHook(
+  hook: HookName,
+  command: string,
+  env: Record<string, string>,
+  timeout: number = DEFAULT_TIMEOUT
+): Promise<HookResult> {
+  return new Promise((resolve) => {
+    const startTime = Date.now();
+    const output: string[] = [];
+    let timedOut = false;
+
+    console.log(chalk.blue(`Running ${hook} hook: ${command}`));
+
+    // Own process group, so a timeout also kills what the shell started
+    const child = spawn(command, {
+      shell: true,
+      detached: process.platform !== 'win32',
+      env: { ...process.env, ...env },
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    const addLine = (line: string) => {
+      console.log(chalk.gray(`[${hook}] ${line}`));
+      output.push(line);
+      if (output.length > OUTPUT_LINES) output.shift();
+    };
+    for (const stream of [child.stdout, child.stderr]) {
+      let partial = '';
+      stream.on('data', (chunk: Buffer) => {
+        const lines = (partial + chunk.toString()).split('\n');
+        partial = lines.pop()!;
+        lines.forEach(addLine);
+      });
+      stream.on('end', () => {
+        if (partial) addLine(partial);
+      });
+    }
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      try {
+        if (process.platform === 'win32') child.kill('SIGKILL');
+        else process.kill(-child.pid!, 'SIGKILL');
+      } catch {
+        // Already exited
+      }
+    }, timeout);
+
+    let finished = false;
+    const finish = (exitCode: number | null, error?: string) => {
+      if (finished) return;
+      finished = true;
+      clearTimeout(timer);
+      const result: HookResult = { hook, command, ok: !error, exitCode, durationMs: Date.now() - startTime, output, error };
+      const duration = (result.durationMs / 1000).toFixed(1);
+      if (result.ok) {
+        console.log(chalk.green(`✓ ${hook} hook finished (${duration}s)`));
+      } else {
+        console.log(chalk.red(`✗ ${hook} hook failed: ${error} (${duration}s)`));
+      }
+      resolve(result);
+    };
+
+    child.on('error', (err) => finish(null, err.message));
+    child.on('close', (code, signal) => {
+      if (timedOut) finish(null, `timeout after ${timeout}ms`);
+      else if (code !== 0) finish(code, signal ? `killed by ${signal}` : `exit code ${code}`);
+      else finish(0);
+    });
+  });
+}
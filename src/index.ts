@@ -14,6 +14,15 @@
  */
 
 export { startMaster, type MasterOptions } from './master.js';
-export { getStatus, type RuntimeStatus, type WorkerStatus } from './ipc.js';
+export { getStatus, streamEvents, type RuntimeStatus, type WorkerStatus } from './ipc.js';
+export type { GpddEvent, GpddEventType } from './events.js';
 export { readPidFile, writePidFile, removePidFile, PID_FILE } from './pid.js';
-export { startHealthCheck, stopHealthCheck, checkHealth, type HealthCheckOptions, type HealthCheckResult } from './health.js';
+export {
+  startHealthCheck,
+  stopHealthCheck,
+  checkHealth,
+  runHealthCheck,
+  type HealthCheckOptions,
+  type HealthCheckResult,
+  type HealthCheckType,
+} from './health.js';
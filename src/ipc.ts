@@ -4,23 +4,52 @@
  * Uses a simple HTTP server on localhost for cross-platform compatibility.
  * The port is written to a file next to the PID file.
  * 
- * Also serves an embedded web dashboard at /dashboard
+ * Also serves an embedded web dashboard at /dashboard and a stream of
+ * lifecycle events (Server-Sent Events) at /events
  */
 
 import http from 'node:http';
+import https from 'node:https';
+import type { TLSSocket } from 'node:tls';
 import fs from 'node:fs';
+import os from 'node:os';
+import crypto from 'node:crypto';
 import path from 'node:path';
 import { execSync } from 'node:child_process';
 import { PID_FILE } from './pid.js';
 import { getDashboardHTML } from './dashboard.js';
+import { getReloadJob, listReloadJobs, type ReloadJob, type ReloadRequest } from './jobs.js';
+import type { AutoscaleStatus } from './autoscale.js';
+import type { HookResult } from './hooks.js';
+import type { ScheduleStatus } from './schedule.js';
+import type { WebhookStatus } from './webhooks.js';
+import { getHealthHistory, type WorkerHealth } from './health.js';
+import { subscribeEvents, type GpddEvent } from './events.js';
 
 export interface WorkerStatus {
   id: number;
   pid: number;
+  /** starting | ready | draining | restarting (crash backoff) | errored (crash loop) */
   state: string;
   startTime: number;
   /** Memory usage in MB (RSS - Resident Set Size) */
   memoryMB?: number;
+  /** Code generation the worker runs (incremented by every reload) */
+  generation?: number;
+  /** Entry file the worker runs */
+  appFile?: string;
+  /** Number of times this worker slot was restarted */
+  restarts?: number;
+  /** Reason of the last restart (e.g. "crash (code 1)") */
+  lastRestartReason?: string;
+  /** Per-worker health check results (if enabled) */
+  health?: WorkerHealth;
+  /** Last heartbeat received from the worker */
+  lastHeartbeat?: number;
+  /** Custom metrics reported by the worker (reportMetrics()) */
+  metrics?: Record<string, number>;
+  /** Open connections and requests while draining (drainServer()) */
+  inFlight?: { connections: number; requests: number };
 }
 
 export interface SystemMemory {
@@ -41,10 +70,92 @@ export interface AutostartInfo {
   serviceName?: string;
 }
 
+export interface CanaryResult {
+  /** New worker used as canary */
+  workerId: number;
+  /** Whether the canary stayed healthy for the whole bake time */
+  passed: boolean;
+  /** Health checks performed / failed during the bake time */
+  checks: number;
+  failures: number;
+  /** Times the canary died during the bake time */
+  crashes: number;
+  error?: string;
+}
+
+export interface WorkerFailure {
+  workerId: number;
+  pid: number;
+  generation?: number;
+  /** e.g. "exited before ready (code 1)" */
+  reason: string;
+  time: number;
+  /** Last lines the worker wrote to stdout/stderr */
+  output: string[];
+}
+
+export interface ReloadResult {
+  ok: boolean;
+  startTime: number;
+  endTime: number;
+  /** Number of old workers replaced by new ones */
+  replaced: number;
+  /** Number of workers the reload had to replace */
+  total: number;
+  /** Whether the old generation was restored after a failed reload */
+  rolledBack: boolean;
+  /** Canary outcome (canary reloads only) */
+  canary?: CanaryResult;
+  /** New workers that failed to start, with their last output */
+  failures?: WorkerFailure[];
+  /** Reload hooks that ran (preReload, postReload / onReloadFailed) */
+  hooks?: HookResult[];
+  error?: string;
+}
+
+export interface ScaleStatus {
+  /** Worker count the master converges to */
+  target: number;
+  /** Workers currently running (not draining) */
+  actual: number;
+  /** Whether a scale operation is in progress */
+  scaling: boolean;
+}
+
+export interface ReleaseInfo {
+  /** Entry file of the release */
+  appFile: string;
+  /** Generation that activated the release */
+  generation: number;
+  activatedAt: number;
+}
+
 export interface RuntimeStatus {
+  /** Master PID */
+  pid?: number;
+  /** Whether the IPC TCP listener (dashboard) uses https */
+  ipcTls?: boolean;
   appFile: string;
   startTime: number;
   workers: WorkerStatus[];
+  /** Current code generation */
+  generation?: number;
+  /** Result of the most recent reload */
+  lastReload?: ReloadResult;
+  /** ID of the reload job currently running */
+  activeReload?: string;
+  /** Recent releases (newest first, the first one is active) */
+  releases?: ReleaseInfo[];
+  /** Target and actual worker count */
+  scale?: ScaleStatus;
+  /** Autoscaling bounds and last decision (if autoscaling is on) */
+  autoscale?: AutoscaleStatus;
+  /** Scheduled restarts (cron / max worker age) */
+  schedule?: ScheduleStatus;
+  /** Recent workers that failed to start or crashed (newest last) */
+  failedWorkers?: WorkerFailure[];
+  /** Delivery counts per webhook (if webhooks are configured) */
+  webhooks?: WebhookStatus[];
   /** Total memory of all workers in MB */
   appMemoryMB?: number;
   /** System memory info */
@@ -53,125 +164,444 @@ export interface RuntimeStatus {
   autostart?: AutostartInfo;
 }
 
+/**
+ * Handles IPC commands; 'reload' returns the queued reload job, scale
+ * commands return the scale status
+ * @param args Parsed JSON request body (if any)
+ * @throws CommandError to reject the command
+ */
+export type CommandHandler = (cmd: string, args?: Record<string, unknown>) => ReloadJob | ScaleStatus | void;
+
+/**
+ * Rejected IPC command (sent to the client with the given HTTP status)
+ */
+export class CommandError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'CommandError';
+  }
+}
+
+export interface IpcServerOptions {
+  /** Fixed TCP port (default: random) */
+  port?: number;
+  /** IP to bind TCP to (default: 127.0.0.1) */
+  bindAddress?: string;
+  /** Also listen on TCP, for the remote dashboard (always on Windows, which has no Unix socket) */
+  tcp?: boolean;
+  /** Bearer token for TCP (default: generated at start) */
+  token?: string;
+  /** Serve TCP without a token (only allowed when binding to loopback) */
+  allowUnauthenticated?: boolean;
+  /** Serve TCP over https */
+  tls?: IpcTlsOptions;
+}
+
+export interface IpcTlsOptions {
+  /** Server certificate and key (PEM files) */
+  cert: string;
+  key: string;
+  /** CA (PEM file) for client certificates; when set, command routes require one (mTLS) */
+  clientCa?: string;
+}
+
+/** How the CLI reaches the master (default: local socket or port file) */
+export interface IpcClientOptions {
+  /** Remote master, e.g. https://server:9000 */
+  url?: string;
+  /** CA (PEM file) to verify the master's certificate */
+  ca?: string;
+  /** Client certificate and key (PEM files) for mTLS */
+  cert?: string;
+  key?: string;
+}
+
 const PORT_FILE = PID_FILE.replace('.pid', '.port');
+const TOKEN_FILE = PID_FILE.replace('.pid', '.token');
+export const SOCKET_FILE = PID_FILE.replace('.pid', '.sock');
+/** Path of the socket if SOCKET_FILE is too long to bind */
+const SOCKET_PATH_FILE = PID_FILE.replace('.pid', '.sockpath');
+/** Longest socket path that binds everywhere (sun_path: 104 bytes on macOS, 108 on Linux) */
+const MAX_SOCKET_PATH = 103;
+const EVENTS_KEEPALIVE = 15000;
 
-let server: http.Server | null = null;
+let servers: Array<http.Server | https.Server> = [];
+/** Open GET /events streams (ended on stop, server.close() waits for them) */
+const eventStreams: Set<http.ServerResponse> = new Set();
+/** Socket, port and token file written by this master */
+let ipcFiles: string[] = [];
+let authToken: string | null = null;
 let statusCallback: (() => RuntimeStatus) | null = null;
-let commandCallback: ((cmd: string) => void) | null = null;
+let commandCallback: CommandHandler | null = null;
 let serverPort: number = 0;
+let clientOptions: IpcClientOptions = {};
+let tlsEnabled = false;
 
 /**
- * Start IPC server (called by master)
- * @param preferredPort If > 0, use this port; otherwise use random port
- * @param bindAddress IP to bind to (default: 127.0.0.1)
+ * Start IPC server (called by master). The Unix socket (mode 0660) is
+ * protected by file permissions; TCP requires the bearer token, which is
+ * written to .gpdd.token (mode 0600).
+ * @returns the TCP port (0 without TCP)
  */
-export function startStatusServer(
+export async function startStatusServer(
   getStatus: () => RuntimeStatus,
-  onCommand?: (cmd: string) => void,
-  preferredPort?: number,
-  bindAddress: string = '127.0.0.1'
+  onCommand?: CommandHandler,
+  options: IpcServerOptions = {}
 ): Promise<number> {
+  const bindAddress = options.bindAddress || '127.0.0.1';
+  const useSocket = process.platform !== 'win32';
+  const useTcp = options.tcp || !useSocket;
+  if (useTcp && options.allowUnauthenticated && !isLoopback(bindAddress)) {
+    throw new Error(`unauthenticated IPC access is only allowed on loopback (bind: ${bindAddress})`);
+  }
   statusCallback = getStatus;
   commandCallback = onCommand || null;
 
-  return new Promise((resolve, reject) => {
-    server = http.createServer((req, res) => {
-      // CORS for web dashboard
-      res.setHeader('Access-Control-Allow-Origin', '*');
-      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-
-      // Handle preflight
-      if (req.method === 'OPTIONS') {
-        res.writeHead(204);
-        res.end();
-        return;
+  if (useSocket) {
+    const socketFile = chooseSocketFile();
+    // Left over if the previous master crashed
+    for (const file of [socketFile, SOCKET_PATH_FILE]) {
+      try {
+        fs.unlinkSync(file);
+      } catch {
+        // Ignore
       }
+    }
+    await listen(http.createServer(createHandler(false)), { path: socketFile });
+    fs.chmodSync(socketFile, 0o660);
+    ipcFiles.push(socketFile);
+    if (socketFile !== SOCKET_FILE) {
+      fs.writeFileSync(SOCKET_PATH_FILE, socketFile);
+      ipcFiles.push(SOCKET_PATH_FILE);
+    }
+  }
 
-      // Dashboard routes
-      if (req.method === 'GET' && (req.url === '/' || req.url === '/dashboard')) {
-        res.setHeader('Content-Type', 'text/html');
-        res.writeHead(200);
-        res.end(getDashboardHTML(serverPort));
+  if (useTcp) {
+    authToken = options.allowUnauthenticated ? null : options.token || crypto.randomBytes(32).toString('hex');
+    if (authToken) {
+      writeTokenFile(authToken);
+      ipcFiles.push(TOKEN_FILE);
+    }
+    // Listen on specified port (or random if 0) on specified address
+    const { tls } = options;
+    tlsEnabled = !!tls;
+    const tcpServer = tls
+      ? https.createServer({
+        cert: fs.readFileSync(tls.cert),
+        key: fs.readFileSync(tls.key),
+        // Client certificates are checked per route (only commands require one)
+        ca: tls.clientCa ? fs.readFileSync(tls.clientCa) : undefined,
+        requestCert: !!tls.clientCa,
+        rejectUnauthorized: false,
+      }, createHandler(true, !!tls.clientCa))
+      : http.createServer(createHandler(true));
+    await listen(tcpServer, { port: options.port && options.port > 0 ? options.port : 0, host: bindAddress });
+    const addr = tcpServer.address();
+    serverPort = typeof addr === 'object' && addr ? addr.port : 0;
+    fs.writeFileSync(PORT_FILE, String(serverPort));
+    ipcFiles.push(PORT_FILE);
+  }
+
+  return serverPort;
+}
+
+/**
+ * SOCKET_FILE, or a short path in the temp directory if the project path is
+ * too long for a Unix socket (recorded in .gpdd.sockpath for clients)
+ * @throws Error if neither path fits
+ */
+function chooseSocketFile(): string {
+  if (Buffer.byteLength(SOCKET_FILE) <= MAX_SOCKET_PATH) return SOCKET_FILE;
+
+  const hash = crypto.createHash('sha256').update(SOCKET_FILE).digest('hex').slice(0, 16);
+  const socketFile = path.join(os.tmpdir(), `gpdd-${hash}.sock`);
+  if (Buffer.byteLength(socketFile) > MAX_SOCKET_PATH) {
+    throw new Error(
+      `socket path ${SOCKET_FILE} is too long (max ${MAX_SOCKET_PATH} bytes) and so is ${socketFile} - ` +
+      'set TMPDIR to a shorter directory'
+    );
+  }
+  return socketFile;
+}
+
+/**
+ * Unix socket of the master in the current directory: the recorded fallback
+ * path if SOCKET_FILE was too long, else SOCKET_FILE
+ */
+export function getSocketFile(): string {
+  try {
+    return fs.readFileSync(SOCKET_PATH_FILE, 'utf-8').trim() || SOCKET_FILE;
+  } catch {
+    return SOCKET_FILE;
+  }
+}
+
+function listen(server: http.Server | https.Server, options: { path?: string; port?: number; host?: string }): Promise<void> {
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options, () => {
+      servers.push(server);
+      resolve();
+    });
+  });
+}
+
+/**
+ * Request handler for the IPC routes
+ * @param requireToken Check the bearer token (TCP)
+ * @param requireClientCert Commands (POST) need a verified client certificate
+ */
+function createHandler(requireToken: boolean, requireClientCert: boolean = false): http.RequestListener {
+  return async (req, res) => {
+    // CORS for web dashboard
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+    // Handle preflight
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    // Dashboard routes
+    if (req.method === 'GET' && (req.url === '/' || req.url === '/dashboard')) {
+      res.setHeader('Content-Type', 'text/html');
+      res.writeHead(200);
+      res.end(getDashboardHTML(serverPort));
+      return;
+    }
+
+    // API routes
+    res.setHeader('Content-Type', 'application/json');
+    const { pathname, searchParams } = new URL(req.url || '/', 'http://localhost');
+
+    // EventSource cannot send headers - the event stream also takes ?token=
+    const queryToken = pathname === '/events' ? searchParams.get('token') : null;
+    if (requireToken && !isAuthorized(req, queryToken)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      res.writeHead(401);
+      res.end(JSON.stringify({ ok: false, error: 'unauthorized' }));
+      return;
+    }
+
+    if (requireClientCert && req.method === 'POST' && !(req.socket as TLSSocket).authorized) {
+      res.writeHead(403);
+      res.end(JSON.stringify({ ok: false, error: 'client certificate required' }));
+      return;
+    }
+
+    if (req.method === 'GET' && pathname === '/events') {
+      serveEvents(req, res);
+      return;
+    }
+
+    if (req.method === 'GET' && req.url === '/status') {
+      const status = statusCallback ? statusCallback() : null;
+      res.writeHead(200);
+      res.end(JSON.stringify(status));
+      return;
+    }
+
+    if (req.method === 'POST' && (req.url === '/reload' || req.url === '/rollback')) {
+      const command = req.url.slice(1);
+      let job: ReloadJob | undefined;
+      try {
+        // Optional body: per-reload settings, e.g. { "app": "releases/abc/dist/index.js", "maxSurge": 2 }
+        job = commandCallback ? commandCallback(command, await readJsonBody(req)) as ReloadJob : undefined;
+      } catch (err) {
+        sendCommandError(res, err);
         return;
       }
+      if (job) {
+        // Reload runs in the background - track it via GET /reloads/:id
+        res.writeHead(202);
+        res.end(JSON.stringify({ ok: true, command, jobId: job.id, job }));
+      } else {
+        res.writeHead(500);
+        res.end(JSON.stringify({ ok: false, error: 'no handler' }));
+      }
+      return;
+    }
 
-      // API routes
-      res.setHeader('Content-Type', 'application/json');
+    if (req.method === 'GET' && req.url === '/reloads') {
+      res.writeHead(200);
+      res.end(JSON.stringify(listReloadJobs()));
+      return;
+    }
+
+    if (req.method === 'GET' && req.url?.startsWith('/reloads/')) {
+      const job = getReloadJob(decodeURIComponent(req.url.slice('/reloads/'.length)));
+      res.writeHead(job ? 200 : 404);
+      res.end(JSON.stringify(job || { error: 'unknown reload job' }));
+      return;
+    }
+
+    if (req.method === 'GET' && req.url === '/health/history') {
+      // Recent results of every health check with p50/p95/p99 latency and success rate
+      res.writeHead(200);
+      res.end(JSON.stringify({ checks: getHealthHistory() }));
+      return;
+    }
 
-      if (req.method === 'GET' && req.url === '/status') {
-        const status = statusCallback ? statusCallback() : null;
+    if (req.method === 'POST' && req.url === '/stop') {
+      if (commandCallback) {
         res.writeHead(200);
-        res.end(JSON.stringify(status));
-        return;
+        res.end(JSON.stringify({ ok: true, command: 'stop' }));
+        // Give response time to send before shutting down
+        setTimeout(() => commandCallback!('stop'), 100);
+      } else {
+        res.writeHead(500);
+        res.end(JSON.stringify({ ok: false, error: 'no handler' }));
       }
+      return;
+    }
 
-      if (req.method === 'POST' && req.url === '/reload') {
-        if (commandCallback) {
-          commandCallback('reload');
-          res.writeHead(200);
-          res.end(JSON.stringify({ ok: true, command: 'reload' }));
-        } else {
-          res.writeHead(500);
-          res.end(JSON.stringify({ ok: false, error: 'no handler' }));
-        }
+    if (req.method === 'POST' && (req.url === '/scale' || req.url === '/scale/up' || req.url === '/scale/down')) {
+      // POST /scale takes { "count": n }, /scale/up and /scale/down change the target by one
+      const command = req.url === '/scale' ? 'scale' : req.url === '/scale/up' ? 'scale-up' : 'scale-down';
+      let scale: ScaleStatus | undefined;
+      try {
+        scale = commandCallback ? commandCallback(command, await readJsonBody(req)) as ScaleStatus : undefined;
+      } catch (err) {
+        sendCommandError(res, err);
         return;
       }
-
-      if (req.method === 'POST' && req.url === '/stop') {
-        if (commandCallback) {
-          res.writeHead(200);
-          res.end(JSON.stringify({ ok: true, command: 'stop' }));
-          // Give response time to send before shutting down
-          setTimeout(() => commandCallback!('stop'), 100);
-        } else {
-          res.writeHead(500);
-          res.end(JSON.stringify({ ok: false, error: 'no handler' }));
-        }
-        return;
+      if (scale) {
+        res.writeHead(202);
+        res.end(JSON.stringify({ ok: true, command, ...scale }));
+      } else {
+        res.writeHead(500);
+        res.end(JSON.stringify({ ok: false, error: 'no handler' }));
       }
+      return;
+    }
 
-      if (req.method === 'POST' && req.url === '/scale/up') {
-        if (commandCallback) {
-          commandCallback('scale-up');
-          res.writeHead(200);
-          res.end(JSON.stringify({ ok: true, command: 'scale-up' }));
-        } else {
-          res.writeHead(500);
-          res.end(JSON.stringify({ ok: false, error: 'no handler' }));
-        }
+    res.writeHead(404);
+    res.end(JSON.stringify({ error: 'not found' }));
+  };
+}
+
+/**
+ * Stream lifecycle events as Server-Sent Events until the client disconnects.
+ * A reconnecting client gets the events it missed (Last-Event-ID).
+ */
+function serveEvents(req: http.IncomingMessage, res: http.ServerResponse): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.write(': connected\n\n');
+
+  const lastId = parseInt(String(req.headers['last-event-id'] ?? ''), 10);
+  const unsubscribe = subscribeEvents((event) => {
+    res.write(`id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`);
+  }, Number.isNaN(lastId) ? undefined : lastId);
+  // Comment lines keep proxies from closing an idle stream
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), EVENTS_KEEPALIVE);
+  eventStreams.add(res);
+
+  res.on('close', () => {
+    unsubscribe();
+    clearInterval(keepAlive);
+    eventStreams.delete(res);
+  });
+}
+
+/**
+ * Whether the request carries the bearer token (always true without a token)
+ * @param queryToken Token given in the URL instead of the Authorization header
+ */
+function isAuthorized(req: http.IncomingMessage, queryToken: string | null = null): boolean {
+  if (!authToken) return true;
+  const match = (req.headers.authorization || '').match(/^Bearer\s+(\S+)$/i);
+  const token = match ? match[1] : queryToken;
+  if (!token) return false;
+  const given = Buffer.from(token);
+  const expected = Buffer.from(authToken);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+/**
+ * Whether a bind address only accepts local connections
+ */
+export function isLoopback(address: string): boolean {
+  return address === 'localhost' || address === '::1' || /^127\./.test(address);
+}
+
+/**
+ * Write the token readable by the owner only
+ */
+function writeTokenFile(token: string): void {
+  // The mode only applies to new files - an old file may have other permissions
+  try {
+    fs.unlinkSync(TOKEN_FILE);
+  } catch {
+    // Ignore
+  }
+  fs.writeFileSync(TOKEN_FILE, token, { mode: 0o600 });
+}
+
+/**
+ * Token to send to the master: GPDD_TOKEN, else the token file
+ */
+export function readTokenFile(): string | null {
+  if (process.env.GPDD_TOKEN) return process.env.GPDD_TOKEN;
+  try {
+    return fs.readFileSync(TOKEN_FILE, 'utf-8').trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Authorization header for requests to the master (empty without a token)
+ */
+function authHeaders(): Record<string, string> {
+  const token = readTokenFile();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/**
+ * Reply with the status code of a rejected command (400 for other errors)
+ */
+function sendCommandError(res: http.ServerResponse, err: unknown): void {
+  res.writeHead(err instanceof CommandError ? err.statusCode : 400);
+  res.end(JSON.stringify({ ok: false, error: err instanceof Error ? err.message : String(err) }));
+}
+
+/**
+ * Read and parse a (small) JSON request body; empty body yields {}
+ */
+function readJsonBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', (chunk) => {
+      data += chunk;
+      if (data.length > 64 * 1024) {
+        reject(new Error('request body too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => {
+      if (!data.trim()) {
+        resolve({});
         return;
       }
-
-      if (req.method === 'POST' && req.url === '/scale/down') {
-        if (commandCallback) {
-          commandCallback('scale-down');
-          res.writeHead(200);
-          res.end(JSON.stringify({ ok: true, command: 'scale-down' }));
-        } else {
-          res.writeHead(500);
-          res.end(JSON.stringify({ ok: false, error: 'no handler' }));
+      try {
+        const body = JSON.parse(data);
+        if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+          reject(new Error('request body must be a JSON object'));
+          return;
         }
-        return;
+        resolve(body);
+      } catch {
+        reject(new Error('invalid JSON body'));
       }
-
-      res.writeHead(404);
-      res.end(JSON.stringify({ error: 'not found' }));
-    });
-
-    // Listen on specified port (or random if 0) on specified address
-    const listenPort = preferredPort && preferredPort > 0 ? preferredPort : 0;
-    server.listen(listenPort, bindAddress, () => {
-      const addr = server!.address();
-      serverPort = typeof addr === 'object' && addr ? addr.port : 0;
-      
-      // Write port to file
-      fs.writeFileSync(PORT_FILE, String(serverPort));
-      
-      resolve(serverPort);
     });
-
-    server.on('error', reject);
+    req.on('error', reject);
   });
 }
 
@@ -182,17 +612,24 @@ export function stopStatusServer(): void {
   statusCallback = null;
   commandCallback = null;
   
-  if (server) {
+  for (const res of eventStreams) {
+    res.end();
+  }
+  for (const server of servers) {
     server.close();
-    server = null;
   }
+  servers = [];
   
-  // Remove port file
-  try {
-    fs.unlinkSync(PORT_FILE);
-  } catch {
-    // Ignore
+  // Remove socket, port and token file
+  for (const file of ipcFiles) {
+    try {
+      fs.unlinkSync(file);
+    } catch {
+      // Ignore
+    }
   }
+  ipcFiles = [];
+  authToken = null;
 }
 
 /**
@@ -207,20 +644,59 @@ export function readPortFile(): number | null {
   }
 }
 
+/**
+ * Point the CLI at a remote master and/or set up TLS
+ */
+export function configureClient(options: IpcClientOptions): void {
+  clientOptions = options;
+}
+
+/**
+ * Where the CLI reaches the master: the configured URL, else the Unix socket
+ * if there is one, else the local TCP port
+ */
+function getMasterAddress(): https.RequestOptions | null {
+  const { url, ca, cert, key } = clientOptions;
+  if (url) {
+    const { protocol, hostname, port } = new URL(url);
+    return {
+      protocol,
+      hostname,
+      port: port || (protocol === 'https:' ? 443 : 80),
+      ca: ca ? fs.readFileSync(ca) : undefined,
+      cert: cert ? fs.readFileSync(cert) : undefined,
+      key: key ? fs.readFileSync(key) : undefined,
+    };
+  }
+  const socketFile = getSocketFile();
+  if (process.platform !== 'win32' && fs.existsSync(socketFile)) {
+    return { socketPath: socketFile };
+  }
+  const port = readPortFile();
+  return port ? { host: '127.0.0.1', port } : null;
+}
+
+/**
+ * Request to the master over http or https
+ */
+function request(options: https.RequestOptions, callback: (res: http.IncomingMessage) => void): http.ClientRequest {
+  return options.protocol === 'https:' ? https.request(options, callback) : http.request(options, callback);
+}
+
 /**
  * Query status from master (called by CLI)
  */
 export async function getStatus(): Promise<RuntimeStatus | null> {
-  const port = readPortFile();
-  if (!port) return null;
+  const address = getMasterAddress();
+  if (!address) return null;
 
   return new Promise((resolve) => {
-    const req = http.get(`http://127.0.0.1:${port}/status`, { timeout: 2000 }, (res) => {
+    const req = request({ ...address, path: '/status', timeout: 2000, headers: authHeaders() }, (res) => {
       let data = '';
       res.on('data', (chunk) => (data += chunk));
       res.on('end', () => {
         try {
-          resolve(JSON.parse(data));
+          resolve(res.statusCode === 200 ? JSON.parse(data) : null);
         } catch {
           resolve(null);
         }
@@ -232,6 +708,8 @@ export async function getStatus(): Promise<RuntimeStatus | null> {
       req.destroy();
       resolve(null);
     });
+
+    req.end();
   });
 }
 
@@ -239,13 +717,12 @@ export async function getStatus(): Promise<RuntimeStatus | null> {
  * Send command to master (called by CLI)
  */
 export async function sendCommand(command: 'reload' | 'stop'): Promise<boolean> {
-  const port = readPortFile();
-  if (!port) return false;
+  const address = getMasterAddress();
+  if (!address) return false;
 
   return new Promise((resolve) => {
-    const req = http.request(
-      `http://127.0.0.1:${port}/${command}`,
-      { method: 'POST', timeout: 5000 },
+    const req = request(
+      { ...address, path: `/${command}`, method: 'POST', timeout: 5000, headers: authHeaders() },
       (res) => {
         res.resume();
         resolve(res.statusCode === 200);
@@ -262,10 +739,184 @@ export async function sendCommand(command: 'reload' | 'stop'): Promise<boolean>
   });
 }
 
+/**
+ * Request a reload (or rollback to the previous release) from master (called by CLI)
+ * @param options Per-reload strategy, canary and app settings
+ * @returns the reload job, or null if the master could not be reached
+ * @throws Error if the master rejected the request
+ */
+export async function sendReload(
+  options: ReloadRequest = {},
+  command: 'reload' | 'rollback' = 'reload'
+): Promise<ReloadJob | null> {
+  const address = getMasterAddress();
+  if (!address) return null;
+
+  return new Promise((resolve, reject) => {
+    const req = request(
+      {
+        ...address,
+        path: `/${command}`,
+        method: 'POST',
+        timeout: 5000,
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+      },
+      (res) => {
+        let data = '';
+        res.on('data', (chunk) => (data += chunk));
+        res.on('end', () => {
+          try {
+            const body = JSON.parse(data);
+            if (!body.ok) {
+              reject(new Error(body.error));
+              return;
+            }
+            resolve(body.job || null);
+          } catch {
+            resolve(null);
+          }
+        });
+      }
+    );
+
+    req.on('error', () => resolve(null));
+    req.on('timeout', () => {
+      req.destroy();
+      resolve(null);
+    });
+
+    req.end(JSON.stringify(options));
+  });
+}
+
+/**
+ * Ask master to scale to an exact worker count (called by CLI)
+ * @returns the scale status, or null if the master could not be reached
+ * @throws Error if the master rejected the request
+ */
+export async function sendScale(count: number): Promise<ScaleStatus | null> {
+  const address = getMasterAddress();
+  if (!address) return null;
+
+  return new Promise((resolve, reject) => {
+    const req = request(
+      {
+        ...address,
+        path: '/scale',
+        method: 'POST',
+        timeout: 5000,
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+      },
+      (res) => {
+        let data = '';
+        res.on('data', (chunk) => (data += chunk));
+        res.on('end', () => {
+          try {
+            const body = JSON.parse(data);
+            if (!body.ok) {
+              reject(new Error(body.error));
+              return;
+            }
+            resolve({ target: body.target, actual: body.actual, scaling: body.scaling });
+          } catch {
+            resolve(null);
+          }
+        });
+      }
+    );
+
+    req.on('error', () => resolve(null));
+    req.on('timeout', () => {
+      req.destroy();
+      resolve(null);
+    });
+
+    req.end(JSON.stringify({ count }));
+  });
+}
+
+/**
+ * Query a reload job from master (called by CLI)
+ * @returns null if the job is unknown or the master could not be reached
+ */
+export async function fetchReloadJob(id: string): Promise<ReloadJob | null> {
+  const address = getMasterAddress();
+  if (!address) return null;
+
+  return new Promise((resolve) => {
+    const route = `/reloads/${encodeURIComponent(id)}`;
+    const req = request({ ...address, path: route, timeout: 2000, headers: authHeaders() }, (res) => {
+      let data = '';
+      res.on('data', (chunk) => (data += chunk));
+      res.on('end', () => {
+        try {
+          resolve(res.statusCode === 200 ? JSON.parse(data) : null);
+        } catch {
+          resolve(null);
+        }
+      });
+    });
+
+    req.on('error', () => resolve(null));
+    req.on('timeout', () => {
+      req.destroy();
+      resolve(null);
+    });
+
+    req.end();
+  });
+}
+
+/**
+ * Stream lifecycle events from master (called by CLI)
+ * @returns resolves when the master closes the stream
+ * @throws Error if the master could not be reached or refused the stream
+ */
+export async function streamEvents(onEvent: (event: GpddEvent) => void): Promise<void> {
+  const address = getMasterAddress();
+  if (!address) throw new Error('master not running');
+
+  return new Promise((resolve, reject) => {
+    const req = request(
+      { ...address, path: '/events', headers: { Accept: 'text/event-stream', ...authHeaders() } },
+      (res) => {
+        if (res.statusCode !== 200) {
+          res.resume();
+          reject(new Error(`master responded with status ${res.statusCode}`));
+          return;
+        }
+
+        // Events are separated by blank lines; only data: lines matter here
+        let buffer = '';
+        res.setEncoding('utf-8');
+        res.on('data', (chunk: string) => {
+          buffer += chunk;
+          const blocks = buffer.split('\n\n');
+          buffer = blocks.pop()!;
+          for (const block of blocks) {
+            const data = block.split('\n').filter(line => line.startsWith('data:')).map(line => line.slice(5).trim());
+            if (data.length === 0) continue;
+            try {
+              onEvent(JSON.parse(data.join('\n')));
+            } catch {
+              // Ignore malformed events
+            }
+          }
+        });
+        res.on('end', () => resolve());
+        res.on('error', () => resolve());
+      }
+    );
+
+    req.on('error', reject);
+    req.end();
+  });
+}
+
 /**
  * Get process memory usage in MB from /proc/[pid]/status (Linux only)
  */
-function getProcessMemoryMB(pid: number): number | undefined {
+export function getProcessMemoryMB(pid: number): number | undefined {
   try {
     const statusPath = `/proc/${pid}/status`;
     const content = fs.readFileSync(statusPath, 'utf-8');
@@ -282,7 +933,7 @@ function getProcessMemoryMB(pid: number): number | undefined {
 /**
  * Get system memory info from /proc/meminfo (Linux only)
  */
-function getSystemMemory(): SystemMemory | undefined {
+export function getSystemMemory(): SystemMemory | undefined {
   try {
     const content = fs.readFileSync('/proc/meminfo', 'utf-8');
     const memTotalMatch = content.match(/MemTotal:\s*(\d+)\s*kB/);
@@ -352,25 +1003,41 @@ function getAutostartInfo(): AutostartInfo | undefined {
 export function getState(
   appFile: string,
   startTime: number,
-  workers: Map<number, { id: number; pid: number; state: string; startTime: number }>
+  workers: Map<number, WorkerStatus>,
+  extra: Partial<RuntimeStatus> = {}
 ): RuntimeStatus {
-  const workerList = Array.from(workers.values()).map(w => ({
-    id: w.id,
-    pid: w.pid,
-    state: w.state,
-    startTime: w.startTime,
-    memoryMB: getProcessMemoryMB(w.pid),
-  }));
+  const workerList = Array.from(workers.values()).map(w => {
+    // Crashed slots keep the PID of their last process, which may be reused
+    const running = w.state !== 'restarting' && w.state !== 'errored';
+    return {
+      id: w.id,
+      pid: w.pid,
+      state: w.state,
+      startTime: w.startTime,
+      memoryMB: running ? getProcessMemoryMB(w.pid) : undefined,
+      generation: w.generation,
+      appFile: w.appFile,
+      restarts: w.restarts,
+      lastRestartReason: w.lastRestartReason,
+      health: w.health,
+      lastHeartbeat: w.lastHeartbeat,
+      metrics: w.metrics,
+      inFlight: w.state === 'draining' ? w.inFlight : undefined,
+    };
+  });
   
   // Sum up all worker memory for app total
   const appMemoryMB = workerList.reduce((sum, w) => sum + (w.memoryMB || 0), 0) || undefined;
   
   return {
+    pid: process.pid,
+    ipcTls: tlsEnabled || undefined,
     appFile,
     startTime,
     workers: workerList,
     appMemoryMB,
     system: getSystemMemory(),
     autostart: getAutostartInfo(),
+    ...extra,
   };
 }
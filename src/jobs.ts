@@ -0,0 +1,251 @@
+/**
+ * Reload Jobs
+ *
+ * Every reload request becomes a job with its own ID, state and progress log.
+ * Jobs run one at a time; a request made while another reload is queued
+ * joins the queued job instead of adding another rollout.
+ */
+
+import { randomBytes } from 'node:crypto';
+import type { ReloadResult } from './ipc.js';
+import { emitEvent } from './events.js';
+
+/** 'aborted': a canary reload rejected the new code and restored the old workers */
+export type ReloadJobState = 'queued' | 'running' | 'succeeded' | 'failed' | 'aborted';
+
+export interface RolloutStrategy {
+  /**
+   * 'rolling': replace workers in batches (maxSurge + maxUnavailable at a time)
+   * 'blue-green': start a full second set of workers, then drain the old set
+   */
+  type: 'rolling' | 'blue-green';
+  /** Extra workers started above the worker count per batch (default: 1) */
+  maxSurge: number;
+  /** Old workers stopped before their replacements are ready (default: 0) */
+  maxUnavailable: number;
+}
+
+export interface CanaryOptions {
+  /** How long the canary is watched before the rollout continues, in ms (default: 60000) */
+  bakeTime: number;
+  /** Interval between health checks of the canary in ms (default: 5000) */
+  interval: number;
+  /** Health URL checked during the bake time (default: health check URL, then ready URL) */
+  url?: string;
+  /** Failed health checks tolerated during the bake time (default: 0) */
+  maxFailures: number;
+}
+
+export interface ReloadOptions {
+  strategy: RolloutStrategy;
+  /** Replace one worker first and watch it before continuing */
+  canary?: CanaryOptions;
+  /** Entry file for the new workers (default: the current one) */
+  app?: string;
+  /** Reload goes back to the previous release */
+  rollback?: boolean;
+}
+
+/** Per-reload settings as sent with POST /reload */
+export interface ReloadRequest extends Partial<RolloutStrategy> {
+  /** true or canary settings to run the reload as canary */
+  canary?: boolean | Partial<CanaryOptions>;
+  /** Entry file for the new workers, e.g. releases/<sha>/dist/index.js */
+  app?: string;
+}
+
+export interface ReloadJobStep {
+  time: number;
+  message: string;
+  /** Worker the step refers to (if any) */
+  workerId?: number;
+}
+
+export interface ReloadJob {
+  id: string;
+  state: ReloadJobState;
+  /** What requested the reload (ipc, signal, health-check, ...) */
+  trigger: string;
+  createdAt: number;
+  options: ReloadOptions;
+  startTime?: number;
+  endTime?: number;
+  /** Per-worker progress log */
+  steps: ReloadJobStep[];
+  result?: ReloadResult;
+}
+
+type ReloadRunner = (job: ReloadJob) => Promise<ReloadResult>;
+
+const MAX_JOBS = 20; // Finished jobs kept for lookup
+
+const jobs: ReloadJob[] = [];
+const queue: ReloadJob[] = [];
+let running: ReloadJob | null = null;
+
+/**
+ * Queue a reload (or join a queued one with the same options)
+ */
+export function enqueueReload(trigger: string, options: ReloadOptions, run: ReloadRunner): ReloadJob {
+  const queued = queue.find(j => JSON.stringify(j.options) === JSON.stringify(options));
+  if (queued) {
+    addJobStep(queued, `Joined by ${trigger} request`);
+    return queued;
+  }
+
+  const job: ReloadJob = {
+    id: randomBytes(4).toString('hex'),
+    state: 'queued',
+    trigger,
+    createdAt: Date.now(),
+    options,
+    steps: [],
+  };
+
+  jobs.push(job);
+  // Drop oldest finished jobs
+  while (jobs.length > MAX_JOBS && jobs[0].state !== 'queued' && jobs[0].state !== 'running') {
+    jobs.shift();
+  }
+
+  queue.push(job);
+  processQueue(run);
+  return job;
+}
+
+/**
+ * Run queued jobs one after another
+ */
+async function processQueue(run: ReloadRunner): Promise<void> {
+  if (running) return;
+
+  while (queue.length > 0) {
+    const job = queue.shift()!;
+    running = job;
+    job.state = 'running';
+    job.startTime = Date.now();
+    emitEvent({ type: 'reload:started', jobId: job.id, trigger: job.trigger });
+
+    try {
+      job.result = await run(job);
+    } catch (err) {
+      job.result = {
+        ok: false,
+        startTime: job.startTime,
+        endTime: Date.now(),
+        replaced: 0,
+        total: 0,
+        rolledBack: false,
+        error: err instanceof Error ? err.message : String(err),
+      };
+    }
+
+    job.state = job.result.ok ? 'succeeded' : job.result.canary?.passed === false ? 'aborted' : 'failed';
+    job.endTime = Date.now();
+    running = null;
+
+    const { result } = job;
+    if (result.ok) {
+      emitEvent({
+        type: 'reload:completed',
+        jobId: job.id,
+        replaced: result.replaced,
+        total: result.total,
+        durationMs: result.endTime - result.startTime,
+      });
+    } else {
+      emitEvent({ type: 'reload:failed', jobId: job.id, error: result.error || job.state, rolledBack: result.rolledBack });
+    }
+  }
+}
+
+/**
+ * Merge per-reload strategy overrides (e.g. from an IPC request) into the defaults
+ * @throws Error if the resulting strategy is invalid
+ */
+export function resolveStrategy(
+  defaults: RolloutStrategy,
+  overrides: Partial<Record<keyof RolloutStrategy, unknown>> = {}
+): RolloutStrategy {
+  const strategy = {
+    type: overrides.type ?? defaults.type,
+    maxSurge: overrides.maxSurge !== undefined ? Number(overrides.maxSurge) : defaults.maxSurge,
+    maxUnavailable: overrides.maxUnavailable !== undefined ? Number(overrides.maxUnavailable) : defaults.maxUnavailable,
+  };
+
+  if (strategy.type !== 'rolling' && strategy.type !== 'blue-green') {
+    throw new Error(`unknown strategy "${strategy.type}" (expected rolling or blue-green)`);
+  }
+  if (!Number.isInteger(strategy.maxSurge) || strategy.maxSurge < 0) {
+    throw new Error('maxSurge must be a non-negative integer');
+  }
+  if (!Number.isInteger(strategy.maxUnavailable) || strategy.maxUnavailable < 0) {
+    throw new Error('maxUnavailable must be a non-negative integer');
+  }
+  if (strategy.type === 'rolling' && strategy.maxSurge + strategy.maxUnavailable < 1) {
+    throw new Error('maxSurge and maxUnavailable cannot both be 0');
+  }
+
+  return strategy as RolloutStrategy;
+}
+
+/**
+ * Resolve canary settings of a reload request
+ * @returns undefined if the reload is not a canary reload
+ * @throws Error if the settings are invalid
+ */
+export function resolveCanary(
+  defaults: CanaryOptions,
+  request: unknown
+): CanaryOptions | undefined {
+  if (!request) return undefined;
+
+  const overrides = (typeof request === 'object' ? request : {}) as Partial<Record<keyof CanaryOptions, unknown>>;
+  const canary: CanaryOptions = {
+    bakeTime: overrides.bakeTime !== undefined ? Number(overrides.bakeTime) : defaults.bakeTime,
+    interval: overrides.interval !== undefined ? Number(overrides.interval) : defaults.interval,
+    url: overrides.url !== undefined ? String(overrides.url) : defaults.url,
+    maxFailures: overrides.maxFailures !== undefined ? Number(overrides.maxFailures) : defaults.maxFailures,
+  };
+
+  if (!Number.isFinite(canary.bakeTime) || canary.bakeTime < 0) {
+    throw new Error('canary bakeTime must be a non-negative number');
+  }
+  if (!Number.isFinite(canary.interval) || canary.interval <= 0) {
+    throw new Error('canary interval must be a positive number');
+  }
+  if (!Number.isInteger(canary.maxFailures) || canary.maxFailures < 0) {
+    throw new Error('canary maxFailures must be a non-negative integer');
+  }
+
+  return canary;
+}
+
+/**
+ * Append a progress step to a job
+ */
+export function addJobStep(job: ReloadJob, message: string, workerId?: number): void {
+  job.steps.push({ time: Date.now(), message, workerId });
+  emitEvent({ type: 'reload:step', jobId: job.id, message, workerId });
+}
+
+/**
+ * Look up a job by ID
+ */
+export function getReloadJob(id: string): ReloadJob | undefined {
+  return jobs.find(j => j.id === id);
+}
+
+/**
+ * All known jobs (newest first)
+ */
+export function listReloadJobs(): ReloadJob[] {
+  return [...jobs].reverse();
+}
+
+/**
+ * The job currently running (if any)
+ */
+export function getRunningReloadJob(): ReloadJob | null {
+  return running;
+}
@@ -10,31 +10,177 @@
  */
 
 import cluster, { Worker } from 'node:cluster';
+import fs from 'node:fs';
 import os from 'node:os';
 import path from 'node:path';
+import type { Readable } from 'node:stream';
 import chalk from 'chalk';
 import { writePidFile, removePidFile } from './pid.js';
-import { startStatusServer, stopStatusServer, getState } from './ipc.js';
-import { startHealthCheck, stopHealthCheck, checkHealth, type HealthCheckOptions } from './health.js';
+import {
+  startStatusServer,
+  stopStatusServer,
+  getSocketFile,
+  type IpcTlsOptions,
+  getState,
+  CommandError,
+  getProcessMemoryMB,
+  type ReloadResult,
+  type WorkerFailure,
+  type ScaleStatus,
+  type CanaryResult,
+  type ReleaseInfo,
+} from './ipc.js';
+import {
+  startHealthCheck,
+  stopHealthCheck,
+  checkHealth,
+  runHealthCheck,
+  describeHealthCheck,
+  checkWorkerHealth,
+  recordWorkerHealth,
+  type HealthCheckOptions,
+  type HealthCheckResult,
+  type HealthChecker,
+  type WorkerHealthCheckOptions,
+  type WorkerHealth,
+} from './health.js';
+import { startAutoscaler, stopAutoscaler, getAutoscaleStatus, type AutoscaleOptions } from './autoscale.js';
+import { parseWorkerMessage } from './protocol.js';
+import { emitEvent } from './events.js';
+import { runHook, type ReloadHooks, type HookName, type HookResult } from './hooks.js';
+import { startRestartSchedule, stopRestartSchedule, getScheduleStatus, type RestartSchedule } from './schedule.js';
+import { startWebhooks, stopWebhooks, flushWebhooks, getWebhookStatus, type WebhookOptions } from './webhooks.js';
+import {
+  enqueueReload,
+  addJobStep,
+  getRunningReloadJob,
+  resolveStrategy,
+  resolveCanary,
+  type ReloadJob,
+  type RolloutStrategy,
+  type CanaryOptions,
+} from './jobs.js';
 
 export interface MasterOptions {
   numWorkers?: number;
   graceTimeout?: number;
   readyTimeout?: number;
   healthCheck?: HealthCheckOptions;
+  /** Further named health checks, each with its own interval, threshold and action */
+  healthChecks?: HealthCheckOptions[];
+  /** Check each worker over IPC and replace only unhealthy ones */
+  workerHealthCheck?: WorkerHealthCheckOptions;
   /** URL to poll to determine if worker is ready (e.g., http://localhost:3000/health) */
   readyUrl?: string;
   /** Fixed IPC port (default: random) */
   ipcPort?: number;
   /** Bind address for IPC server (default: 127.0.0.1, use 0.0.0.0 for remote access) */
   bindAddress?: string;
+  /** Serve IPC over TCP besides the Unix socket, e.g. for the dashboard (implied by ipcPort) */
+  ipcTcp?: boolean;
+  /** Bearer token for the IPC server (default: GPDD_TOKEN, else generated into .gpdd.token) */
+  ipcToken?: string;
+  /** Serve IPC without a token (only allowed with a loopback bind address) */
+  allowUnauthenticated?: boolean;
+  /** Serve IPC TCP over https (optionally requiring client certificates for commands) */
+  ipcTls?: IpcTlsOptions;
+  /** Backoff and limits for restarting crashed workers */
+  restartPolicy?: RestartPolicy;
+  /** Default reload strategy (can be overridden per reload) */
+  rollout?: Partial<RolloutStrategy>;
+  /** Default canary settings for canary reloads */
+  canary?: Partial<CanaryOptions>;
+  /** Kill and replace workers that stop sending heartbeats */
+  heartbeat?: HeartbeatOptions;
+  /** Recycle workers whose memory stays above a limit */
+  memoryLimit?: MemoryLimit;
+  /** Rolling restarts on a cron schedule or by worker age */
+  restartSchedule?: RestartSchedule;
+  /** Adjust the worker count to CPU and memory load within min/max bounds */
+  autoscale?: AutoscaleOptions;
+  /** Shell commands run before and after reloads */
+  reloadHooks?: ReloadHooks;
+  /** URLs notified about crashes, reload results, health thresholds and shutdown */
+  webhooks?: WebhookOptions[];
+}
+
+export interface RestartPolicy {
+  /** Delay before the first restart in ms (default: 1000) */
+  initialDelay?: number;
+  /** Factor applied to the delay for every further restart (default: 2) */
+  multiplier?: number;
+  /** Maximum delay in ms (default: 30000) */
+  maxDelay?: number;
+  /** Restarts allowed within `window` before the slot is marked errored (default: 10) */
+  maxRestarts?: number;
+  /** Time window in ms in which restarts are counted (default: 60000) */
+  window?: number;
+}
+
+export interface HeartbeatOptions {
+  /** Expected heartbeat interval in ms (default: 5000) */
+  interval?: number;
+  /** Missed heartbeats tolerated before the worker is killed (default: 3) */
+  tolerance?: number;
+}
+
+export interface MemoryLimit {
+  /** Maximum RSS per worker in MB */
+  maxMemoryMB: number;
+  /** Consecutive samples above the limit before the worker is replaced (default: 3) */
+  samples?: number;
+  /** Sample interval in ms (default: 10000) */
+  interval?: number;
 }
 
 interface WorkerInfo {
   id: number;
   pid: number;
-  state: 'starting' | 'ready' | 'draining';
+  /**
+   * 'restarting': crashed, waiting for the backoff delay
+   * 'errored': crashed too often, no longer restarted
+   */
+  state: 'starting' | 'ready' | 'draining' | 'restarting' | 'errored';
   startTime: number;
+  /** Code generation (incremented by every reload) */
+  generation: number;
+  /** Entry file the worker runs */
+  appFile: string;
+  /** Number of times this worker slot was restarted */
+  restarts: number;
+  /** Reason of the last restart (e.g. "crash (code 1)") */
+  lastRestartReason?: string;
+  /** Crash timestamps within the restart window */
+  crashTimes: number[];
+  /** Consecutive memory samples above the memory limit */
+  overMemorySamples: number;
+  /** Result history of per-worker health checks */
+  health?: WorkerHealth;
+  /** Last heartbeat received (watched from the first one on) */
+  lastHeartbeat?: number;
+  /** Killed by the heartbeat watchdog, restart still pending */
+  missedHeartbeats?: boolean;
+  /** Custom metrics reported by the worker */
+  metrics?: Record<string, number>;
+  /** Open connections and requests reported while draining */
+  inFlight?: { connections: number; requests: number };
+  /** Last lines of stdout/stderr */
+  output: string[];
+}
+
+/** State of a running reload */
+interface Rollout {
+  job: ReloadJob;
+  /** Generation of the new workers */
+  generation: number;
+  /** Workers forked by this reload */
+  newWorkerIds: number[];
+  /** Old workers replaced by ready new workers so far */
+  replaced: number;
+  /** Old workers to replace */
+  total: number;
+  /** New workers that failed to start */
+  failures: WorkerFailure[];
 }
 
 // Module state
@@ -42,13 +188,62 @@ let appFile: string;
 let workers: Map<number, WorkerInfo> = new Map();
 let isShuttingDown = false;
 let isReloading = false;
-let isScalingDown = false;
+let isScaling = false;
+let isExiting = false;
 let startTime: number;
 let readyUrl: string | undefined;
+let currentGeneration = 1;
+/** Entry file per generation (old workers keep running their own release) */
+const generationApps: Map<number, string> = new Map();
+/** Recent releases, oldest first; the last entry is the active one */
+let releases: ReleaseInfo[] = [];
+let lastReload: ReloadResult | undefined;
+let targetWorkers: number;
+let restartPolicy: Required<RestartPolicy>;
+let defaultRollout: RolloutStrategy;
+let defaultCanary: CanaryOptions;
+let healthCheckOptions: HealthCheckOptions | undefined;
+let reloadHooks: ReloadHooks = {};
+const restartTimers: Map<number, NodeJS.Timeout> = new Map();
+/** Workers currently being replaced one by one (e.g. over the memory limit) */
+const replacingWorkers: Set<number> = new Set();
+/** Worker IDs by PID of processes stopped on purpose, kept until they exit (the slot may be gone already) */
+const stoppingWorkers: Map<number, number> = new Map();
+let memoryCheckInterval: NodeJS.Timeout | null = null;
+let workerHealthInterval: NodeJS.Timeout | null = null;
+let heartbeatInterval: NodeJS.Timeout | null = null;
+/** Recent workers that failed to start or crashed, oldest first */
+let failedWorkers: WorkerFailure[] = [];
 
 const GRACE_TIMEOUT = parseInt(process.env.GPDD_GRACE_TIMEOUT || '30000', 10);
 const READY_TIMEOUT = parseInt(process.env.GPDD_READY_TIMEOUT || '10000', 10);
 const READY_CHECK_INTERVAL = 500; // Poll ready URL every 500ms
+const DRAIN_EXIT_TIMEOUT = 5000; // Time to exit once a worker reports no in-flight requests
+const CANARY_CHECK_TIMEOUT = 5000; // Answer time of the canary to a health check over IPC
+const MAX_RELEASES = 10;
+const OUTPUT_LINES = parseInt(process.env.GPDD_OUTPUT_LINES || '50', 10); // Output kept per worker
+const MAX_FAILED_WORKERS = 5;
+
+const DEFAULT_RESTART_POLICY = {
+  initialDelay: parseInt(process.env.GPDD_RESTART_DELAY || '1000', 10),
+  multiplier: parseFloat(process.env.GPDD_RESTART_MULTIPLIER || '2'),
+  maxDelay: parseInt(process.env.GPDD_RESTART_MAX_DELAY || '30000', 10),
+  maxRestarts: parseInt(process.env.GPDD_MAX_RESTARTS || '10', 10),
+  window: parseInt(process.env.GPDD_RESTART_WINDOW || '60000', 10),
+};
+
+const DEFAULT_ROLLOUT: RolloutStrategy = {
+  type: process.env.GPDD_STRATEGY === 'blue-green' ? 'blue-green' : 'rolling',
+  maxSurge: parseInt(process.env.GPDD_MAX_SURGE || '1', 10),
+  maxUnavailable: parseInt(process.env.GPDD_MAX_UNAVAILABLE || '0', 10),
+};
+
+const DEFAULT_CANARY: CanaryOptions = {
+  bakeTime: parseInt(process.env.GPDD_CANARY_BAKE_TIME || '60000', 10),
+  interval: parseInt(process.env.GPDD_CANARY_INTERVAL || '5000', 10),
+  url: process.env.GPDD_CANARY_URL,
+  maxFailures: parseInt(process.env.GPDD_CANARY_MAX_FAILURES || '0', 10),
+};
 
 /**
  * Start the master process
@@ -56,9 +251,21 @@ const READY_CHECK_INTERVAL = 500; // Poll ready URL every 500ms
 export async function startMaster(app: string, options: MasterOptions = {}): Promise<void> {
   appFile = path.resolve(app);
   startTime = Date.now();
+  generationApps.set(currentGeneration, appFile);
+  releases = [{ appFile, generation: currentGeneration, activatedAt: startTime }];
   readyUrl = options.readyUrl;
+  restartPolicy = { ...DEFAULT_RESTART_POLICY, ...options.restartPolicy };
+  defaultRollout = resolveStrategy(DEFAULT_ROLLOUT, options.rollout);
+  defaultCanary = { ...DEFAULT_CANARY, ...options.canary };
+  reloadHooks = options.reloadHooks || {};
+  const healthChecks = [...(options.healthCheck ? [options.healthCheck] : []), ...(options.healthChecks || [])];
+  // Canaries are checked against the first check that would reload
+  healthCheckOptions = healthChecks.find(c => (c.action || 'reload') === 'reload') || healthChecks[0];
   
-  const numWorkers = options.numWorkers || parseInt(process.env.GPDD_WORKERS || '0', 10) || os.cpus().length;
+  let numWorkers = options.numWorkers || parseInt(process.env.GPDD_WORKERS || '0', 10) || os.cpus().length;
+  if (options.autoscale) {
+    numWorkers = Math.min(Math.max(numWorkers, options.autoscale.minWorkers), options.autoscale.maxWorkers);
+  }
   
   console.log(chalk.blue(`Master PID: ${process.pid}`));
   console.log(chalk.blue(`Workers: ${numWorkers}`));
@@ -74,54 +281,177 @@ export async function startMaster(app: string, options: MasterOptions = {}): Pro
   const ipcPort = options.ipcPort || parseInt(process.env.GPDD_IPC_PORT || '0', 10);
   const bindAddress = options.bindAddress || process.env.GPDD_BIND || '127.0.0.1';
   const port = await startStatusServer(
-    () => getState(appFile, startTime, workers),
-    (cmd) => {
-      if (cmd === 'reload') handleReload();
-      if (cmd === 'stop') handleShutdown();
-      if (cmd === 'scale-up') handleScaleUp();
-      if (cmd === 'scale-down') handleScaleDown();
+    () => getState(appFile, startTime, workers, {
+      generation: currentGeneration,
+      lastReload,
+      activeReload: getRunningReloadJob()?.id,
+      releases: [...releases].reverse(),
+      scale: getScaleStatus(),
+      autoscale: getAutoscaleStatus(),
+      schedule: getScheduleStatus(),
+      failedWorkers,
+      webhooks: getWebhookStatus(),
+    }),
+    (cmd, args) => {
+      if (cmd === 'reload') return requestReload('ipc', args);
+      if (cmd === 'rollback') return requestRollback(args);
+      if (cmd === 'stop') handleShutdown('ipc');
+      if (cmd === 'scale') return requestScale(Number(args?.count));
+      if (cmd === 'scale-up') return handleScaleUp();
+      if (cmd === 'scale-down') return handleScaleDown();
     },
-    ipcPort,
-    bindAddress
+    {
+      port: ipcPort,
+      bindAddress,
+      tcp: options.ipcTcp || ipcPort > 0 || process.env.GPDD_IPC_TCP === '1',
+      token: options.ipcToken || process.env.GPDD_TOKEN,
+      allowUnauthenticated: options.allowUnauthenticated,
+      tls: options.ipcTls,
+    }
   );
-  console.log(chalk.gray(`IPC server on ${bindAddress}:${port}`));
+  if (process.platform !== 'win32') {
+    console.log(chalk.gray(`IPC socket ${getSocketFile()}`));
+  }
+  if (port) {
+    console.log(chalk.gray(`IPC server on ${options.ipcTls ? 'https' : 'http'}://${bindAddress}:${port}`));
+  }
   
-  // Setup cluster
+  // Workers inherit the environment - they read the heartbeat interval from it
+  const heartbeat = options.heartbeat && { interval: 5000, tolerance: 3, ...options.heartbeat };
+  if (heartbeat) {
+    process.env.GPDD_HEARTBEAT_INTERVAL = String(heartbeat.interval);
+  }
+  
+  // Subscribed before the first fork, so no event is missed
+  if (options.webhooks?.length) {
+    startWebhooks(options.webhooks, () => appFile);
+  }
+  
+  // Setup cluster (silent: worker output is captured and passed through)
   cluster.setupPrimary({
     exec: appFile,
+    silent: true,
   });
   
   // Fork initial workers
+  targetWorkers = numWorkers;
   for (let i = 0; i < numWorkers; i++) {
     forkWorker();
   }
 
-  // Start health check if configured
-  if (options.healthCheck) {
-    startHealthCheck(options.healthCheck, (result) => {
-      console.log(chalk.red(`Health check failed: ${result.error || 'unhealthy'}`));
-      console.log(chalk.yellow('Triggering reload due to health check failure...'));
-      handleReload();
+  // Start health checks if configured
+  for (const check of healthChecks) {
+    startHealthCheck(check, handleHealthFailure);
+  }
+
+  // Watch worker heartbeats
+  if (heartbeat) {
+    console.log(chalk.blue(`Heartbeat: every ${heartbeat.interval / 1000}s, ${heartbeat.tolerance} missed allowed`));
+    heartbeatInterval = setInterval(() => checkHeartbeats(heartbeat), heartbeat.interval);
+  }
+
+  // Check workers individually
+  if (options.workerHealthCheck) {
+    const check = { interval: 30000, timeout: 5000, threshold: 3, ...options.workerHealthCheck };
+    console.log(chalk.blue(`Worker health check: IPC (every ${check.interval / 1000}s)`));
+    workerHealthInterval = setInterval(() => checkWorkers(check), check.interval);
+  }
+
+  // Recycle workers over the memory limit
+  if (options.memoryLimit) {
+    const limit = { samples: 3, interval: 10000, ...options.memoryLimit };
+    console.log(chalk.blue(`Memory limit: ${limit.maxMemoryMB} MB per worker`));
+    memoryCheckInterval = setInterval(() => checkWorkerMemory(limit), limit.interval);
+  }
+
+  // Scheduled rolling restarts
+  if (options.restartSchedule) {
+    startRestartSchedule(options.restartSchedule, {
+      getOldestWorkerStart: () => {
+        const running = Array.from(workers.values()).filter(w => hasProcess(w) && w.state !== 'draining');
+        return running.length ? Math.min(...running.map(w => w.startTime)) : undefined;
+      },
+      restart: (trigger) => {
+        if (isShuttingDown) return 'shutdown in progress';
+        if (isReloading || getRunningReloadJob()) return 'reload in progress';
+        try {
+          requestReload(trigger);
+          return undefined;
+        } catch (err) {
+          return err instanceof Error ? err.message : String(err);
+        }
+      },
+    });
+  }
+
+  // Start autoscaling if configured
+  if (options.autoscale) {
+    startAutoscaler(options.autoscale, {
+      getWorkerPids: () => Array.from(workers.values())
+        .filter(w => w.state === 'ready' && hasProcess(w))
+        .map(w => w.pid),
+      getTarget: () => targetWorkers,
+      scaleTo: (target) => {
+        try {
+          requestScale(target);
+          return true;
+        } catch {
+          return false; // Reload or shutdown in progress
+        }
+      },
     });
   }
 
-  // Handle worker messages
+  // Handle worker messages (plain strings or structured gpdd:* messages)
   cluster.on('message', (worker, message) => {
-    if (message === 'ready') {
-      const info = findWorkerByPid(worker.process.pid!);
-      if (info) {
-        info.state = 'ready';
-        console.log(chalk.green(`Worker ${info.id} ready (PID ${info.pid})`));
-      }
+    const msg = parseWorkerMessage(message);
+    const info = msg && findWorkerByPid(worker.process.pid!);
+    if (!msg || !info) return;
+    
+    if (msg.type === 'gpdd:ready') {
+      info.state = 'ready';
+      console.log(chalk.green(`Worker ${info.id} ready (PID ${info.pid})`));
+      emitEvent({ type: 'worker:ready', workerId: info.id, pid: info.pid });
+    } else if (msg.type === 'gpdd:heartbeat') {
+      info.lastHeartbeat = Date.now();
+    } else if (msg.type === 'gpdd:metrics') {
+      info.metrics = { ...info.metrics, ...msg.metrics };
+    } else if (msg.type === 'gpdd:drain') {
+      info.inFlight = { connections: msg.connections, requests: msg.requests };
     }
   });
   
   // Handle worker exits
   cluster.on('exit', (worker, code, signal) => {
-    const info = findWorkerByPid(worker.process.pid!);
-    const workerId = info?.id || '?';
+    const pid = worker.process.pid!;
+    const info = findWorkerByPid(pid);
+    const stoppedId = stoppingWorkers.get(pid);
+    stoppingWorkers.delete(pid);
+    const workerId = info?.id ?? stoppedId ?? '?';
     
-    if (info) {
+    // Workers that were not stopped on purpose are restarted with backoff
+    const expected = stoppedId !== undefined || info?.state === 'draining' || isShuttingDown;
+    const unexpected = info && !expected && !isReloading;
+    emitEvent({
+      type: 'worker:exited',
+      workerId: info?.id ?? stoppedId,
+      pid,
+      code,
+      signal,
+      expected,
+    });
+    const exitReason = signal ? `signal ${signal}` : `code ${code}`;
+    if (info && !isShuttingDown && (unexpected || info.state === 'starting')) {
+      recordWorkerFailure(info, info.missedHeartbeats ? 'heartbeat-timeout'
+        : info.state === 'starting' ? `exited before ready (${exitReason})` : `crashed (${exitReason})`);
+    }
+    if (info && unexpected) {
+      if (info.missedHeartbeats) {
+        handleCrash(info, 'heartbeat-timeout', 'heartbeat-timeout');
+      } else {
+        handleCrash(info, exitReason);
+      }
+    } else if (info) {
       workers.delete(info.id);
     }
     
@@ -129,18 +459,13 @@ export async function startMaster(app: string, options: MasterOptions = {}): Pro
       console.log(chalk.gray(`Worker ${workerId} exited`));
       if (workers.size === 0) {
         console.log(chalk.green('All workers stopped'));
-        cleanup();
-        process.exit(0);
+        exitMaster(0);
       }
-    } else if (!isReloading && !isScalingDown) {
-      // Unexpected exit - restart
-      console.log(chalk.yellow(`Worker ${workerId} died (${signal || code}), restarting...`));
-      forkWorker();
     }
   });
   
   // Signal handlers
-  process.on('SIGHUP', handleReload);
+  process.on('SIGHUP', () => requestReload('signal'));
   process.on('SIGTERM', handleShutdown);
   process.on('SIGINT', handleShutdown);
   
@@ -150,8 +475,16 @@ export async function startMaster(app: string, options: MasterOptions = {}): Pro
 
 /**
  * Fork a new worker and start ready-check polling
+ * @param restart Worker this one restarts (restart history is carried over)
  */
-function forkWorker(): Worker {
+function forkWorker(
+  generation: number = currentGeneration,
+  restart?: { previous: WorkerInfo; reason: string }
+): Worker {
+  // Each generation runs its own entry file
+  const exec = generationApps.get(generation) || appFile;
+  cluster.setupPrimary({ exec });
+  
   const worker = cluster.fork();
   const id = getNextWorkerId();
   
@@ -160,10 +493,26 @@ function forkWorker(): Worker {
     pid: worker.process.pid!,
     state: 'starting',
     startTime: Date.now(),
+    generation,
+    appFile: exec,
+    restarts: restart ? restart.previous.restarts + 1 : 0,
+    lastRestartReason: restart?.reason,
+    crashTimes: restart ? restart.previous.crashTimes : [],
+    overMemorySamples: 0,
+    output: [],
   };
   
   workers.set(id, info);
-  console.log(chalk.blue(`Forked worker ${id} (PID ${info.pid})`));
+  console.log(chalk.blue(`Forked worker ${id} (PID ${info.pid}, gen ${generation})`));
+  emitEvent({ type: 'worker:forked', workerId: id, pid: info.pid, generation });
+  
+  captureOutput(worker.process.stdout, process.stdout, info);
+  captureOutput(worker.process.stderr, process.stderr, info);
+  
+  // IPC writes (shutdown, disconnect) fail with EPIPE if the worker already exited
+  worker.on('error', (err) => {
+    console.log(chalk.gray(`Worker ${id} IPC error: ${err.message}`));
+  });
   
   // Start ready-check polling if readyUrl is configured
   if (readyUrl) {
@@ -175,6 +524,251 @@ function forkWorker(): Worker {
   return worker;
 }
 
+/**
+ * Pass worker output through to the master's output and keep the last
+ * OUTPUT_LINES lines
+ */
+function captureOutput(stream: Readable | null, target: NodeJS.WriteStream, info: WorkerInfo): void {
+  if (!stream) return;
+  let partial = '';
+  
+  const append = (lines: string[]) => {
+    info.output.push(...lines);
+    if (info.output.length > OUTPUT_LINES) {
+      info.output.splice(0, info.output.length - OUTPUT_LINES);
+    }
+  };
+  
+  stream.on('data', (chunk: Buffer) => {
+    target.write(chunk);
+    const lines = (partial + chunk.toString()).split('\n');
+    partial = lines.pop()!;
+    append(lines);
+  });
+  stream.on('end', () => {
+    if (partial) append([partial]);
+  });
+}
+
+/**
+ * Remember a failed worker with its output (for /status and reload results)
+ */
+function recordWorkerFailure(info: WorkerInfo, reason: string): WorkerFailure {
+  const failure: WorkerFailure = {
+    workerId: info.id,
+    pid: info.pid,
+    generation: info.generation,
+    reason,
+    time: Date.now(),
+    // Same array: output still arriving after the exit is kept
+    output: info.output,
+  };
+  failedWorkers = [...failedWorkers, failure].slice(-MAX_FAILED_WORKERS);
+  return failure;
+}
+
+/**
+ * Run the action of a health check that reached its threshold
+ */
+function handleHealthFailure(result: HealthCheckResult, checker: HealthChecker): void {
+  const reason = `${checker.name}: ${result.error || 'unhealthy'}`;
+  
+  switch (checker.action) {
+    case 'reload':
+      console.log(chalk.yellow(`Triggering reload due to health check failure (${reason})...`));
+      requestReload('health-check');
+      break;
+    case 'restart-worker': {
+      // A shared check cannot tell which worker failed - replace the longest running one
+      const oldest = Array.from(workers.values())
+        .filter(w => w.state === 'ready' && !replacingWorkers.has(w.id))
+        .sort((a, b) => a.startTime - b.startTime)[0];
+      if (oldest) {
+        console.log(chalk.yellow(`Restarting worker ${oldest.id} due to health check failure (${reason})...`));
+        replaceWorker(oldest, 'health-check');
+      }
+      break;
+    }
+    case 'stop':
+      console.log(chalk.red(`Stopping due to health check failure (${reason})`));
+      handleShutdown('health-check');
+      break;
+    default:
+      console.log(chalk.yellow(`Health check failure (${reason}), notify only`));
+  }
+}
+
+/**
+ * Handle an unexpected worker exit: restart with exponential backoff, or mark
+ * the slot errored once it crashed more than maxRestarts times in the window
+ * @param restartReason Recorded as lastRestartReason (default: "crash (<exitReason>)")
+ */
+function handleCrash(info: WorkerInfo, exitReason: string, restartReason = `crash (${exitReason})`): void {
+  const now = Date.now();
+  info.crashTimes = info.crashTimes.filter(t => now - t < restartPolicy.window);
+  info.crashTimes.push(now);
+  const crashes = info.crashTimes.length;
+  
+  if (crashes > restartPolicy.maxRestarts) {
+    info.state = 'errored';
+    console.log(chalk.red(
+      `Worker ${info.id} died (${exitReason}), crashed ${crashes} times within ${restartPolicy.window / 1000}s - not restarting`
+    ));
+    return;
+  }
+  
+  const delay = Math.min(
+    restartPolicy.initialDelay * Math.pow(restartPolicy.multiplier, crashes - 1),
+    restartPolicy.maxDelay
+  );
+  info.state = 'restarting';
+  console.log(chalk.yellow(
+    `Worker ${info.id} died (${exitReason}), restarting in ${delay}ms (${crashes}/${restartPolicy.maxRestarts})...`
+  ));
+  
+  restartTimers.set(info.id, setTimeout(() => {
+    restartTimers.delete(info.id);
+    // Slot may have been replaced by a reload or removed by scale-down meanwhile
+    if (workers.get(info.id) !== info || info.state !== 'restarting' || isShuttingDown) return;
+    
+    workers.delete(info.id);
+    forkWorker(info.generation, { previous: info, reason: restartReason });
+  }, delay));
+}
+
+/**
+ * Kill a ready worker whose last heartbeat is older than interval * tolerance
+ * (e.g. blocked event loop). Workers are watched from their first heartbeat
+ * on and killed one at a time; the exit goes through the crash restart policy.
+ */
+function checkHeartbeats(heartbeat: Required<HeartbeatOptions>): void {
+  if (isShuttingDown || isReloading) return;
+  
+  // Wait until the last killed worker has been restarted (or given up)
+  const slots = Array.from(workers.values());
+  if (slots.some(w => w.missedHeartbeats && w.state !== 'errored')) return;
+  
+  const deadline = Date.now() - heartbeat.interval * heartbeat.tolerance;
+  const silent = slots
+    .filter(w => w.state === 'ready' && !replacingWorkers.has(w.id) && w.lastHeartbeat !== undefined && w.lastHeartbeat < deadline)
+    .sort((a, b) => a.lastHeartbeat! - b.lastHeartbeat!);
+  const info = silent[0];
+  if (!info) return;
+  
+  const silentFor = Date.now() - info.lastHeartbeat!;
+  console.log(chalk.red(`Worker ${info.id} missed heartbeats for ${Math.round(silentFor / 1000)}s - killing (PID ${info.pid})`));
+  // A hung worker cannot drain; the exit handler restarts the slot with backoff
+  info.missedHeartbeats = true;
+  findClusterWorker(info.pid)?.process.kill('SIGKILL');
+}
+
+/**
+ * Check every ready worker over IPC and replace workers that failed
+ * `threshold` checks in a row
+ */
+async function checkWorkers(check: Required<WorkerHealthCheckOptions>): Promise<void> {
+  const ready = Array.from(workers.values()).filter(w => w.state === 'ready' && !replacingWorkers.has(w.id));
+  
+  await Promise.all(ready.map(async (info) => {
+    const worker = findClusterWorker(info.pid);
+    if (!worker) return;
+    
+    const result = await checkWorkerHealth(worker, check.timeout);
+    if (workers.get(info.id) !== info || info.state !== 'ready') return; // Stopped meanwhile
+    
+    const wasHealthy = info.health?.healthy ?? true;
+    info.health = recordWorkerHealth(info.health, result);
+    
+    if (result.healthy) {
+      if (!wasHealthy) {
+        console.log(chalk.green(`Worker ${info.id} health check recovered`));
+        emitEvent({ type: 'health:recovered', check: 'worker', workerId: info.id });
+      }
+      return;
+    }
+    
+    console.log(chalk.yellow(
+      `Worker ${info.id} health check failed (${info.health.failures}/${check.threshold}): ${result.error}`
+    ));
+    emitEvent({
+      type: 'health:failed',
+      check: 'worker',
+      workerId: info.id,
+      failures: info.health.failures,
+      threshold: check.threshold,
+      error: result.error,
+    });
+    if (info.health.failures >= check.threshold) {
+      replaceWorker(info, 'health-check');
+    }
+  }));
+}
+
+/**
+ * Count memory samples above the limit and replace the first worker that
+ * stayed above it for `samples` checks in a row
+ */
+function checkWorkerMemory(limit: Required<MemoryLimit>): void {
+  for (const info of workers.values()) {
+    if (info.state !== 'ready' || replacingWorkers.has(info.id)) continue;
+    
+    const memoryMB = getProcessMemoryMB(info.pid);
+    if (memoryMB === undefined || memoryMB <= limit.maxMemoryMB) {
+      info.overMemorySamples = 0;
+      continue;
+    }
+    
+    info.overMemorySamples++;
+    if (info.overMemorySamples >= limit.samples && replacingWorkers.size === 0) {
+      console.log(chalk.yellow(
+        `Worker ${info.id} uses ${memoryMB} MB (limit ${limit.maxMemoryMB} MB) for ${info.overMemorySamples} samples`
+      ));
+      replaceWorker(info, 'memory-limit');
+    }
+  }
+}
+
+/**
+ * Replace a single worker: start a replacement, wait until it is ready, then
+ * drain the old one. The old worker keeps serving if the replacement fails.
+ * @returns true if the worker was replaced
+ */
+async function replaceWorker(info: WorkerInfo, reason: string): Promise<boolean> {
+  if (isShuttingDown || isReloading || isScaling || replacingWorkers.has(info.id)) return false;
+  
+  replacingWorkers.add(info.id);
+  console.log(chalk.blue(`Replacing worker ${info.id} (${reason})...`));
+  
+  try {
+    const replacement = forkWorker(info.generation, { previous: info, reason });
+    const replacementId = getLastWorkerId();
+    
+    if (!(await waitForWorkerReady(replacementId))) {
+      console.log(chalk.red(`Replacement for worker ${info.id} failed to become ready - keeping worker ${info.id}`));
+      const slot = workers.get(replacementId);
+      if (slot) {
+        await stopWorker(slot);
+      } else {
+        stoppingWorkers.set(replacement.process.pid!, replacementId);
+        replacement.kill();
+      }
+      return false;
+    }
+    
+    console.log(chalk.gray(`Stopping worker ${info.id} (PID ${info.pid})...`));
+    await stopWorker(info);
+    console.log(chalk.green(`✓ Worker ${info.id} replaced by worker ${replacementId}`));
+    return true;
+  } finally {
+    replacingWorkers.delete(info.id);
+    
+    // A crash during the replacement may have left an extra or missing worker
+    if (!isShuttingDown && !isReloading && getTargetSlots().length !== targetWorkers) {
+      convergeWorkers();
+    }
+  }
+}
+
 /**
  * Poll ready URL until server responds or timeout
  * Any HTTP response (even 404) means the server is up and ready
@@ -194,6 +788,7 @@ async function pollReadyUrl(workerId: number, url: string): Promise<void> {
       // Got an HTTP response - server is ready
       info.state = 'ready';
       console.log(chalk.green(`Worker ${workerId} ready (HTTP ${result.status}, ${result.latencyMs}ms)`));
+      emitEvent({ type: 'worker:ready', workerId, pid: info.pid });
       return;
     }
     
@@ -208,129 +803,550 @@ async function pollReadyUrl(workerId: number, url: string): Promise<void> {
   }
 }
 
+/**
+ * Queue a reload job (reloads run one at a time)
+ * @param request Per-reload settings (strategy overrides, canary)
+ * @throws Error if the resulting settings are invalid
+ */
+function requestReload(trigger: string, request: Record<string, unknown> = {}): ReloadJob {
+  const strategy = resolveStrategy(defaultRollout, request);
+  const canary = resolveCanary(defaultCanary, request.canary);
+  
+  let app: string | undefined;
+  if (request.app !== undefined) {
+    app = path.resolve(String(request.app));
+    if (!fs.existsSync(app)) {
+      throw new Error(`app file not found: ${app}`);
+    }
+  }
+  
+  const job = enqueueReload(trigger, { strategy, canary, app, rollback: request.rollback === true }, handleReload);
+  console.log(chalk.gray(`Reload job ${job.id} ${job.state} (${trigger}${app ? `, app ${app}` : ''})`));
+  return job;
+}
+
+/**
+ * Queue a reload back into the previous release
+ * @throws Error if there is no previous release
+ */
+function requestRollback(request: Record<string, unknown> = {}): ReloadJob {
+  const previous = releases[releases.length - 2];
+  if (!previous) {
+    throw new Error('no previous release to roll back to');
+  }
+  
+  console.log(chalk.yellow(`Rolling back to ${previous.appFile}...`));
+  return requestReload('rollback', { ...request, app: previous.appFile, rollback: true });
+}
+
 /**
  * Zero-downtime reload all workers
+ * 
+ * The reload is transactional: it stops at the first new worker that fails
+ * to become ready, restores the old generation to the original worker count
+ * and stops every new worker it already started.
  */
-async function handleReload() {
+async function handleReload(job: ReloadJob): Promise<ReloadResult> {
+  const reloadStart = Date.now();
+  
   if (isReloading || isShuttingDown) {
-    console.log(chalk.yellow('Reload already in progress'));
-    return;
+    console.log(chalk.yellow(isShuttingDown ? 'Cannot reload during shutdown' : 'Reload already in progress'));
+    return {
+      ok: false,
+      startTime: reloadStart,
+      endTime: Date.now(),
+      replaced: 0,
+      total: 0,
+      rolledBack: false,
+      error: isShuttingDown ? 'shutdown in progress' : 'reload already in progress',
+    };
   }
   
   isReloading = true;
-  console.log(chalk.blue('Starting zero-downtime reload...'));
+  
+  // Let a running scale operation (it stops once isReloading is set) or
+  // single-worker replacement finish first
+  while (isScaling || replacingWorkers.size > 0) {
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+  
+  console.log(chalk.blue(`Starting zero-downtime reload (job ${job.id})...`));
+  
+  const oldGeneration = currentGeneration;
+  const newGeneration = oldGeneration + 1;
+  const newApp = job.options.app || appFile;
+  const hooks: HookResult[] = [];
+  
+  // A failing preReload aborts before anything is touched
+  if (reloadHooks.preReload) {
+    const hook = await runReloadHook(job, 'preReload', { GPDD_APP: newApp, GPDD_GENERATION: String(newGeneration) });
+    hooks.push(hook);
+    if (!hook.ok) {
+      lastReload = {
+        ok: false,
+        startTime: reloadStart,
+        endTime: Date.now(),
+        replaced: 0,
+        total: 0,
+        rolledBack: false,
+        hooks,
+        error: `preReload hook failed: ${hook.error}`,
+      };
+      isReloading = false;
+      console.log(chalk.red(`✗ Reload aborted: ${lastReload.error}`));
+      if (getTargetSlots().length !== targetWorkers) {
+        convergeWorkers();
+      }
+      return lastReload;
+    }
+  }
+  
+  generationApps.set(newGeneration, newApp);
+  if (newApp !== appFile) {
+    console.log(chalk.blue(`New app: ${newApp}`));
+    addJobStep(job, `Switching app from ${appFile} to ${newApp}`);
+  }
+  
+  // Crashed slots are replaced by the reload instead of their pending restart
+  for (const id of Array.from(restartTimers.keys())) {
+    cancelRestart(id);
+  }
   
   // Get current worker list (copy to avoid mutation during iteration)
-  const currentWorkers = Array.from(workers.entries());
+  const currentWorkers = Array.from(workers.values()).filter(info => info.state !== 'draining');
+  const rollout: Rollout = {
+    job,
+    generation: newGeneration,
+    newWorkerIds: [],
+    replaced: 0,
+    total: currentWorkers.length,
+    failures: [],
+  };
+  let error: string | undefined;
   
-  for (const [id, info] of currentWorkers) {
-    console.log(chalk.gray(`Replacing worker ${id}...`));
-    
-    // 1. Fork new worker
-    const newWorker = forkWorker();
-    const newWorkerId = getLastWorkerId();
+  // Blue/green replaces everything in one batch without taking old workers down early
+  const { strategy } = job.options;
+  const batchSize = strategy.type === 'blue-green'
+    ? Math.max(currentWorkers.length, 1)
+    : strategy.maxSurge + strategy.maxUnavailable;
+  const unavailable = strategy.type === 'blue-green' ? 0 : strategy.maxUnavailable;
+  console.log(chalk.gray(
+    `Strategy: ${strategy.type}` +
+    (strategy.type === 'rolling' ? ` (maxSurge ${strategy.maxSurge}, maxUnavailable ${strategy.maxUnavailable})` : '')
+  ));
+  
+  // Canary: replace one worker and watch it before touching the others
+  let remainingWorkers = currentWorkers;
+  let canary: CanaryResult | undefined;
+  if (job.options.canary && currentWorkers.length > 0) {
+    error = await replaceBatch(rollout, currentWorkers.slice(0, 1), 0);
+    const canaryId = rollout.newWorkerIds[0];
+    canary = error
+      ? { workerId: canaryId, passed: false, checks: 0, failures: 0, crashes: 0, error }
+      : await bakeCanary(job, canaryId, job.options.canary);
+    if (!canary.passed) {
+      error = `Canary rejected: ${canary.error}`;
+      console.log(chalk.red(error));
+      addJobStep(job, error, canaryId);
+    }
+    remainingWorkers = currentWorkers.slice(1);
+  }
+  
+  for (let i = 0; i < remainingWorkers.length && !error; i += batchSize) {
+    error = await replaceBatch(rollout, remainingWorkers.slice(i, i + batchSize), unavailable);
+  }
+  
+  let rolledBack = false;
+  if (error) {
+    rolledBack = await rollbackReload(rollout, oldGeneration);
+  } else {
+    currentGeneration = newGeneration;
+    appFile = newApp;
+    recordRelease(newApp, newGeneration, job.options.rollback === true);
+  }
+  
+  // Forget entry files of generations no worker runs anymore
+  const liveGenerations = new Set([currentGeneration, ...Array.from(workers.values()).map(w => w.generation)]);
+  for (const generation of Array.from(generationApps.keys())) {
+    if (!liveGenerations.has(generation)) generationApps.delete(generation);
+  }
+  
+  lastReload = {
+    ok: !error,
+    startTime: reloadStart,
+    endTime: Date.now(),
+    replaced: rollout.replaced,
+    total: rollout.total,
+    rolledBack,
+    canary,
+    failures: rollout.failures.length > 0 ? rollout.failures : undefined,
+    hooks: hooks.length > 0 ? hooks : undefined,
+    error,
+  };
+  
+  isReloading = false;
+  if (error) {
+    console.log(chalk.red(`✗ Reload failed: ${error}`));
+  } else {
+    console.log(chalk.green('✓ Reload complete'));
+  }
+  
+  // Resume a scale operation the reload interrupted
+  if (getTargetSlots().length !== targetWorkers) {
+    convergeWorkers();
+  }
+  
+  // After-hooks run with the workers already serving; their outcome does not change the result
+  const afterHook = error ? 'onReloadFailed' : 'postReload';
+  if (reloadHooks[afterHook]) {
+    const hook = await runReloadHook(job, afterHook, {
+      GPDD_APP: appFile,
+      GPDD_GENERATION: String(currentGeneration),
+      ...(error ? { GPDD_RELOAD_ERROR: error } : {}),
+    });
+    lastReload.hooks = [...hooks, hook];
+  }
+  
+  return lastReload;
+}
+
+/**
+ * Run a reload hook and record it as a job step
+ */
+async function runReloadHook(job: ReloadJob, name: HookName, env: Record<string, string>): Promise<HookResult> {
+  addJobStep(job, `Running ${name} hook`);
+  const hook = await runHook(name, reloadHooks[name]!, { GPDD_RELOAD_JOB: job.id, ...env }, reloadHooks.timeout);
+  const duration = (hook.durationMs / 1000).toFixed(1);
+  addJobStep(job, hook.ok ? `${name} hook finished (${duration}s)` : `${name} hook failed: ${hook.error} (${duration}s)`);
+  return hook;
+}
+
+/**
+ * Track the release activated by a successful reload
+ * @param rollback Reload went back to the previous release (drop the current one)
+ */
+function recordRelease(app: string, generation: number, rollback: boolean): void {
+  if (rollback) {
+    releases.pop();
+  }
+  
+  const active = releases[releases.length - 1];
+  if (active && active.appFile === app) {
+    // In-place reload (or rollback target): same release, new generation
+    active.generation = generation;
+    active.activatedAt = Date.now();
+  } else {
+    releases.push({ appFile: app, generation, activatedAt: Date.now() });
+    releases = releases.slice(-MAX_RELEASES);
+  }
+}
+
+/**
+ * Watch a canary worker for the bake time: it must stay alive and pass the
+ * health checks (at most maxFailures failed checks). Every check asks the
+ * canary itself over IPC, since requests to the health URL are balanced
+ * across all workers.
+ */
+async function bakeCanary(job: ReloadJob, workerId: number, options: CanaryOptions): Promise<CanaryResult> {
+  // Canary URL, else the configured health check (any type), else the ready URL
+  const check: HealthCheckOptions | undefined = options.url
+    ? { ...healthCheckOptions, type: 'http', url: options.url }
+    : healthCheckOptions || (readyUrl ? { url: readyUrl } : undefined);
+  const result: CanaryResult = { workerId, passed: false, checks: 0, failures: 0, crashes: 0 };
+  
+  console.log(chalk.blue(
+    `Canary worker ${workerId}: baking for ${options.bakeTime / 1000}s ` +
+    `(checking the worker over IPC${check ? ` and ${describeHealthCheck(check)}` : ''})...`
+  ));
+  addJobStep(job, `Canary worker ${workerId} baking for ${options.bakeTime / 1000}s`, workerId);
+  
+  const deadline = Date.now() + options.bakeTime;
+  let nextCheck = Date.now() + options.interval;
+  
+  // Checked at least once, even if the bake time is shorter than the interval
+  while (Date.now() < deadline || result.checks === 0) {
+    await new Promise(resolve => setTimeout(resolve, Math.max(0, Math.min(READY_CHECK_INTERVAL, deadline - Date.now()))));
     
-    // 2. Wait for new worker to be ready (via readyUrl polling or process.send('ready'))
-    const ready = await waitForWorkerReady(newWorkerId);
-    if (!ready) {
-      console.log(chalk.red(`New worker failed to start, keeping old worker ${id}`));
-      newWorker.kill();
-      workers.delete(newWorkerId);
-      continue;
+    // During a reload crashed workers are not restarted, so a dead canary is gone from the map
+    const info = workers.get(workerId);
+    const worker = info && hasProcess(info) ? findClusterWorker(info.pid) : undefined;
+    if (!worker) {
+      result.crashes++;
+      result.error = `canary worker ${workerId} died during bake time`;
+      return result;
     }
     
-    // 3. Gracefully stop old worker
-    const oldWorker = findClusterWorker(info.pid);
-    if (oldWorker) {
-      info.state = 'draining';
-      console.log(chalk.gray(`Stopping old worker ${id} (PID ${info.pid})...`));
-      
-      // Try sending shutdown message (worker may or may not handle it)
-      try {
-        oldWorker.send('shutdown');
-      } catch {
-        // Ignore - worker may not have IPC
+    if (Date.now() >= nextCheck || Date.now() >= deadline) {
+      nextCheck = Date.now() + options.interval;
+      const checkResult = await checkCanary(worker, check);
+      result.checks++;
+      if (!checkResult.healthy) {
+        result.failures++;
+        console.log(chalk.yellow(
+          `Canary health check failed (${result.failures}/${options.maxFailures + 1}): ${checkResult.error || `status ${checkResult.status}`}`
+        ));
+        if (result.failures > options.maxFailures) {
+          result.error = `canary unhealthy: ${checkResult.error || `status ${checkResult.status}`}`;
+          return result;
+        }
       }
-      
-      // Disconnect and kill with timeout
-      oldWorker.disconnect();
-      await waitForExit(oldWorker, GRACE_TIMEOUT);
     }
-    
-    // Remove old worker from tracking
-    workers.delete(id);
   }
   
-  isReloading = false;
-  console.log(chalk.green('✓ Reload complete'));
+  result.passed = true;
+  console.log(chalk.green(`✓ Canary worker ${workerId} passed (${result.checks} checks, ${result.failures} failed)`));
+  addJobStep(job, `Canary worker ${workerId} passed (${result.checks} checks, ${result.failures} failed)`, workerId);
+  return result;
 }
 
 /**
- * Scale up: Add one worker
+ * One canary check: the worker's own answer over IPC, then the configured
+ * check (which may be answered by any worker)
  */
-function handleScaleUp() {
-  if (isShuttingDown) {
-    console.log(chalk.yellow('Cannot scale up during shutdown'));
-    return;
+async function checkCanary(worker: Worker, check: HealthCheckOptions | undefined): Promise<HealthCheckResult> {
+  const own = await checkWorkerHealth(worker, CANARY_CHECK_TIMEOUT);
+  if (!own.healthy) {
+    return { ...own, error: own.error === 'timeout' ? 'no answer to health check over IPC' : own.error };
   }
+  return check ? runHealthCheck(check) : own;
+}
+
+/**
+ * Replace one batch of old workers: stop up to `unavailable` of them right
+ * away, fork a new worker for each, wait until all new workers are ready and
+ * then stop the rest of the batch
+ * @returns error message if a new worker failed to start
+ */
+async function replaceBatch(rollout: Rollout, batch: WorkerInfo[], unavailable: number): Promise<string | undefined> {
+  const { job } = rollout;
+  const stopFirst = batch.slice(0, unavailable);
+  const stopAfter = batch.slice(unavailable);
+  console.log(chalk.gray(`Replacing worker${batch.length > 1 ? 's' : ''} ${batch.map(w => w.id).join(', ')}...`));
   
-  console.log(chalk.blue('Scaling up: adding 1 worker...'));
-  forkWorker();
+  // 1. Stop workers allowed to be unavailable during the batch
+  await Promise.all(stopFirst.map(info => stopOldWorker(rollout, info)));
+  
+  // 2. Fork new workers
+  const newIds = batch.map(info => {
+    forkWorker(rollout.generation);
+    const newWorkerId = getLastWorkerId();
+    rollout.newWorkerIds.push(newWorkerId);
+    addJobStep(job, `Forked worker ${newWorkerId} to replace worker ${info.id}`, newWorkerId);
+    return newWorkerId;
+  });
+  
+  // 3. Wait for new workers to be ready (via readyUrl polling or process.send('ready'))
+  const ready = await Promise.all(newIds.map(id => waitForWorkerReady(id)));
+  const failed = newIds.filter((_, i) => !ready[i]);
+  for (const id of newIds) {
+    addJobStep(job, failed.includes(id) ? `Worker ${id} failed to start` : `Worker ${id} ready`, id);
+  }
+  if (failed.length > 0) {
+    for (const id of failed) {
+      // Workers that died were recorded on exit, the others timed out
+      const info = workers.get(id);
+      const failure = failedWorkers.find(f => f.workerId === id)
+        || (info && recordWorkerFailure(info, `not ready within ${READY_TIMEOUT}ms`));
+      if (failure) rollout.failures.push(failure);
+    }
+    const error = `New worker${failed.length > 1 ? 's' : ''} ${failed.join(', ')} failed to start`;
+    console.log(chalk.red(error));
+    return error;
+  }
+  
+  // 4. Gracefully stop the remaining old workers
+  await Promise.all(stopAfter.map(info => stopOldWorker(rollout, info)));
+  rollout.replaced += batch.length;
+  addJobStep(job, `Replaced ${rollout.replaced}/${rollout.total} workers`);
+  return undefined;
 }
 
 /**
- * Scale down: Remove one worker (gracefully)
+ * Stop an old worker during a reload and record the progress
  */
-async function handleScaleDown() {
-  if (isShuttingDown || isReloading || isScalingDown) {
-    console.log(chalk.yellow('Cannot scale down during shutdown/reload/scale'));
-    return;
+async function stopOldWorker(rollout: Rollout, info: WorkerInfo): Promise<void> {
+  console.log(chalk.gray(`Stopping old worker ${info.id} (PID ${info.pid})...`));
+  await stopWorker(info);
+  addJobStep(rollout.job, `Stopped old worker ${info.id}`, info.id);
+}
+
+/**
+ * Abort a reload: bring the old generation back to the original worker
+ * count, then stop every new worker the reload started
+ * @returns true if the old generation was fully restored
+ */
+async function rollbackReload(rollout: Rollout, oldGeneration: number): Promise<boolean> {
+  const { job, newWorkerIds } = rollout;
+  console.log(chalk.yellow(`Rolling back to generation ${oldGeneration}...`));
+  addJobStep(job, `Rolling back to generation ${oldGeneration}`);
+  
+  // Kill new workers that never became ready right away
+  for (const id of newWorkerIds) {
+    const info = workers.get(id);
+    if (info && info.state === 'starting') {
+      stoppingWorkers.set(info.pid, info.id);
+      findClusterWorker(info.pid)?.kill();
+      workers.delete(id);
+    }
   }
   
-  if (workers.size <= 1) {
-    console.log(chalk.yellow('Cannot scale down: minimum 1 worker required'));
-    return;
+  // Slots without a process (crashed before the reload) are restored fresh
+  for (const info of Array.from(workers.values())) {
+    if (!hasProcess(info)) workers.delete(info.id);
   }
   
-  isScalingDown = true;
+  // Restore old generation (in-place workers count towards the target)
+  const remaining = Array.from(workers.values())
+    .filter(w => w.generation === oldGeneration && w.state !== 'draining').length;
+  let restored = true;
   
-  // Get the oldest worker (lowest ID)
-  const sortedWorkers = Array.from(workers.entries()).sort((a, b) => a[0] - b[0]);
-  const [id, info] = sortedWorkers[0];
+  for (let i = remaining; i < rollout.total; i++) {
+    forkWorker(oldGeneration);
+    const restoredId = getLastWorkerId();
+    const ready = await waitForWorkerReady(restoredId);
+    if (ready) {
+      addJobStep(job, `Restored worker ${restoredId} (generation ${oldGeneration})`, restoredId);
+    } else {
+      console.log(chalk.red(`Failed to restore generation ${oldGeneration} worker`));
+      addJobStep(job, `Failed to restore worker ${restoredId}`, restoredId);
+      restored = false;
+    }
+  }
   
-  console.log(chalk.blue(`Scaling down: removing worker ${id}...`));
+  // Stop new workers that did become ready
+  for (const id of newWorkerIds) {
+    const info = workers.get(id);
+    if (info) {
+      console.log(chalk.gray(`Stopping new worker ${id} (PID ${info.pid})...`));
+      await stopWorker(info);
+      addJobStep(job, `Stopped new worker ${id}`, id);
+    }
+  }
   
-  const worker = findClusterWorker(info.pid);
-  if (worker) {
-    info.state = 'draining';
+  return restored;
+}
+
+/**
+ * Scale up: Add one worker
+ */
+function handleScaleUp(): ScaleStatus {
+  console.log(chalk.blue('Scaling up: adding 1 worker...'));
+  return requestScale(targetWorkers + 1);
+}
+
+/**
+ * Scale down: Remove one worker (gracefully)
+ */
+function handleScaleDown(): ScaleStatus {
+  console.log(chalk.blue('Scaling down: removing 1 worker...'));
+  return requestScale(targetWorkers - 1);
+}
+
+/**
+ * Set the target worker count and converge to it in the background
+ * @throws CommandError if the count is invalid or a reload/shutdown is running
+ */
+function requestScale(count: number): ScaleStatus {
+  if (!Number.isInteger(count) || count < 1) {
+    throw new CommandError('worker count must be an integer >= 1');
+  }
+  if (isShuttingDown) {
+    throw new CommandError('shutdown in progress', 409);
+  }
+  if (isReloading || getRunningReloadJob()) {
+    throw new CommandError('reload in progress', 409);
+  }
+  
+  if (count !== targetWorkers) {
+    console.log(chalk.blue(`Scaling to ${count} workers (from ${targetWorkers})...`));
+    emitEvent({ type: 'scale:changed', from: targetWorkers, to: count });
+  }
+  targetWorkers = count;
+  convergeWorkers();
+  return getScaleStatus();
+}
+
+/**
+ * Fork or gracefully drain workers until the worker count matches the target
+ */
+async function convergeWorkers(): Promise<void> {
+  if (isScaling) return; // The running loop picks up the new target
+  isScaling = true;
+  let changed = false;
+  
+  while (!isShuttingDown && !isReloading) {
+    const active = getTargetSlots();
+    const diff = targetWorkers - active.length;
+    if (diff === 0) break;
     
-    try {
-      worker.send('shutdown');
-    } catch {
-      // Ignore
+    changed = true;
+    if (diff > 0) {
+      for (let i = 0; i < diff; i++) {
+        forkWorker();
+      }
+      continue;
     }
     
-    worker.disconnect();
-    await waitForExit(worker, GRACE_TIMEOUT);
+    // Remove slots without a process first, then starting workers, then the oldest
+    const rank = (w: WorkerInfo) => (!hasProcess(w) ? 0 : w.state === 'starting' ? 1 : 2);
+    const victims = active.sort((a, b) => rank(a) - rank(b) || a.id - b.id).slice(0, -diff);
+    console.log(chalk.blue(`Scaling down: removing worker${victims.length > 1 ? 's' : ''} ${victims.map(w => w.id).join(', ')}...`));
+    await Promise.all(victims.map(info => stopWorker(info)));
   }
   
-  workers.delete(id);
-  isScalingDown = false;
-  console.log(chalk.green(`✓ Worker ${id} removed`));
+  isScaling = false;
+  if (changed) {
+    const { actual } = getScaleStatus();
+    console.log(chalk.green(`✓ Scaled to ${actual} worker${actual === 1 ? '' : 's'}`));
+  }
+}
+
+/**
+ * Slots that count towards the target worker count. Workers being replaced
+ * already have their successor. Slots waiting for a crash restart or errored
+ * count too (they must not get an extra worker), while getScaleStatus()
+ * reports only running workers as `actual`.
+ */
+function getTargetSlots(): WorkerInfo[] {
+  return Array.from(workers.values()).filter(w => w.state !== 'draining' && !replacingWorkers.has(w.id));
+}
+
+/**
+ * Target vs. actual worker count
+ */
+function getScaleStatus(): ScaleStatus {
+  return {
+    target: targetWorkers,
+    actual: Array.from(workers.values())
+      .filter(w => w.state !== 'draining' && hasProcess(w) && !replacingWorkers.has(w.id)).length,
+    scaling: isScaling,
+  };
 }
 
 /**
  * Graceful shutdown
+ * @param reason What triggered it (signal name, ipc, health-check)
  */
-async function handleShutdown() {
+async function handleShutdown(reason: string = 'signal') {
   if (isShuttingDown) return;
   
   isShuttingDown = true;
   console.log(chalk.blue('Shutting down...'));
+  emitEvent({ type: 'master:shutdown', reason });
+  
+  // Drop slots without a process (pending restarts, errored)
+  for (const info of Array.from(workers.values())) {
+    if (!hasProcess(info)) {
+      cancelRestart(info.id);
+      workers.delete(info.id);
+    }
+  }
   
   // Tell all workers to shutdown
   for (const worker of Object.values(cluster.workers || {})) {
     if (worker) {
+      const info = findWorkerByPid(worker.process.pid!);
+      if (info) emitEvent({ type: 'worker:draining', workerId: info.id, pid: info.pid });
       worker.send('shutdown');
       worker.disconnect();
     }
@@ -339,8 +1355,7 @@ async function handleShutdown() {
   // Wait for workers to exit (with timeout)
   const timeout = setTimeout(() => {
     console.log(chalk.yellow('Timeout, forcing exit...'));
-    cleanup();
-    process.exit(1);
+    exitMaster(1);
   }, GRACE_TIMEOUT);
   
   // Check periodically if all workers are gone
@@ -350,12 +1365,56 @@ async function handleShutdown() {
       clearInterval(checkInterval);
       clearTimeout(timeout);
       console.log(chalk.green('✓ Shutdown complete'));
-      cleanup();
-      process.exit(0);
+      exitMaster(0);
     }
   }, 100);
 }
 
+/**
+ * Gracefully stop a worker: send shutdown, disconnect and wait for exit
+ * (killed after GRACE_TIMEOUT). Removes the worker from tracking.
+ */
+async function stopWorker(info: WorkerInfo): Promise<void> {
+  cancelRestart(info.id);
+  
+  const worker = hasProcess(info) ? findClusterWorker(info.pid) : undefined;
+  if (worker) {
+    info.state = 'draining';
+    stoppingWorkers.set(info.pid, info.id);
+    emitEvent({ type: 'worker:draining', workerId: info.id, pid: info.pid });
+    
+    // Try sending shutdown message (worker may or may not handle it)
+    try {
+      worker.send('shutdown');
+    } catch {
+      // Ignore - worker may not have IPC
+    }
+    
+    worker.disconnect();
+    await waitForExit(worker, GRACE_TIMEOUT, info);
+  }
+  
+  workers.delete(info.id);
+}
+
+/**
+ * Whether a worker slot currently has a running process
+ */
+function hasProcess(info: WorkerInfo): boolean {
+  return info.state !== 'restarting' && info.state !== 'errored';
+}
+
+/**
+ * Cancel a pending crash restart
+ */
+function cancelRestart(workerId: number): void {
+  const timer = restartTimers.get(workerId);
+  if (timer) {
+    clearTimeout(timer);
+    restartTimers.delete(workerId);
+  }
+}
+
 /**
  * Wait for a worker to send 'ready' message
  */
@@ -382,18 +1441,41 @@ function waitForReady(worker: Worker): Promise<boolean> {
 }
 
 /**
- * Wait for a worker to exit
+ * Wait for a worker to exit (killed after the timeout). Workers that report
+ * in-flight counts are done as soon as nothing is in flight; they then get
+ * DRAIN_EXIT_TIMEOUT to run their shutdown handlers and exit.
  */
-function waitForExit(worker: Worker, timeout: number): Promise<void> {
+function waitForExit(worker: Worker, timeout: number, info?: WorkerInfo): Promise<void> {
   return new Promise((resolve) => {
-    const timer = setTimeout(() => {
-      console.log(chalk.yellow(`Worker ${worker.process.pid} timeout, killing...`));
-      worker.kill();
+    const pid = worker.process.pid;
+    const deadline = Date.now() + timeout;
+    const exitTimers: NodeJS.Timeout[] = [];
+
+    const check = setInterval(() => {
+      const inFlight = info?.inFlight;
+      if (inFlight && inFlight.connections === 0 && inFlight.requests === 0) {
+        clearInterval(check);
+        exitTimers.push(setTimeout(() => {
+          console.log(chalk.yellow(`Worker ${pid} drained but did not exit, killing...`));
+          worker.process.kill('SIGKILL');
+        }, DRAIN_EXIT_TIMEOUT));
+        resolve();
+        return;
+      }
+      if (Date.now() < deadline) return;
+
+      clearInterval(check);
+      console.log(chalk.yellow(inFlight
+        ? `Worker ${pid} timeout, killing (${inFlight.requests} in-flight requests cut off)...`
+        : `Worker ${pid} timeout, killing...`));
+      // SIGKILL: a draining worker may ignore another SIGTERM
+      worker.process.kill('SIGKILL');
       resolve();
-    }, timeout);
+    }, 100);
     
     worker.on('exit', () => {
-      clearTimeout(timer);
+      clearInterval(check);
+      exitTimers.forEach(clearTimeout);
       resolve();
     });
   });
@@ -404,7 +1486,7 @@ function waitForExit(worker: Worker, timeout: number): Promise<void> {
  */
 function findWorkerByPid(pid: number): WorkerInfo | undefined {
   for (const info of workers.values()) {
-    if (info.pid === pid) return info;
+    if (info.pid === pid && hasProcess(info)) return info;
   }
   return undefined;
 }
@@ -469,6 +1551,19 @@ function waitForWorkerReady(workerId: number): Promise<boolean> {
   });
 }
 
+/**
+ * Clean up and exit once running webhook deliveries are done (e.g. the
+ * shutdown notification)
+ */
+async function exitMaster(code: number): Promise<void> {
+  // The last worker exit and the shutdown timers may all get here
+  if (isExiting) return;
+  isExiting = true;
+  cleanup();
+  await flushWebhooks();
+  process.exit(code);
+}
+
 /**
  * Cleanup before exit
  */
@@ -476,4 +1571,19 @@ function cleanup() {
   removePidFile();
   stopStatusServer();
   stopHealthCheck();
+  stopAutoscaler();
+  stopRestartSchedule();
+  stopWebhooks();
+  if (memoryCheckInterval) {
+    clearInterval(memoryCheckInterval);
+    memoryCheckInterval = null;
+  }
+  if (workerHealthInterval) {
+    clearInterval(workerHealthInterval);
+    workerHealthInterval = null;
+  }
+  if (heartbeatInterval) {
+    clearInterval(heartbeatInterval);
+    heartbeatInterval = null;
+  }
 }
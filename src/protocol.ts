@@ -0,0 +1,59 @@
+/**
+ * Worker Protocol
+ *
+ * Messages between master and workers over the cluster IPC channel. Workers
+ * send structured, versioned messages ({ v: 1, type: 'gpdd:ready' }); the
+ * plain strings of the original protocol ('ready', 'heartbeat', 'healthy',
+ * 'unhealthy') are still understood. Structured messages without a version or
+ * from a newer protocol version are ignored. The master sends 'shutdown' and
+ * 'health' as plain strings so workers without the SDK keep working.
+ */
+
+export const PROTOCOL_VERSION = 1;
+
+export type WorkerMessage =
+  | { v: number; type: 'gpdd:ready' }
+  | { v: number; type: 'gpdd:heartbeat' }
+  | { v: number; type: 'gpdd:metrics'; metrics: Record<string, number> }
+  | { v: number; type: 'gpdd:health'; healthy: boolean; error?: string }
+  /** Open connections and active requests while the worker drains */
+  | { v: number; type: 'gpdd:drain'; connections: number; requests: number };
+
+/** Commands the master sends to workers */
+export type MasterCommand = 'shutdown' | 'health';
+
+/**
+ * Normalize a message from a worker (structured or plain string)
+ * @returns undefined for messages that are not part of the protocol (e.g. app messages)
+ */
+export function parseWorkerMessage(message: unknown): WorkerMessage | undefined {
+  switch (message) {
+    case 'ready':
+      return { v: PROTOCOL_VERSION, type: 'gpdd:ready' };
+    case 'heartbeat':
+      return { v: PROTOCOL_VERSION, type: 'gpdd:heartbeat' };
+    case 'healthy':
+      return { v: PROTOCOL_VERSION, type: 'gpdd:health', healthy: true };
+    case 'unhealthy':
+      return { v: PROTOCOL_VERSION, type: 'gpdd:health', healthy: false };
+  }
+
+  if (message && typeof message === 'object' && typeof (message as { type?: unknown }).type === 'string') {
+    const msg = message as WorkerMessage;
+    const supported = Number.isInteger(msg.v) && msg.v >= 1 && msg.v <= PROTOCOL_VERSION;
+    if (msg.type.startsWith('gpdd:') && supported) return msg;
+  }
+  return undefined;
+}
+
+/**
+ * Normalize a command from the master (plain string or { type: 'gpdd:<command>' })
+ */
+export function parseMasterCommand(message: unknown): MasterCommand | undefined {
+  if (message === 'shutdown' || message === 'health') return message;
+
+  const type = message && typeof message === 'object' ? (message as { type?: unknown }).type : undefined;
+  if (type === 'gpdd:shutdown') return 'shutdown';
+  if (type === 'gpdd:health') return 'health';
+  return undefined;
+}
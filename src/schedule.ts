@@ -0,0 +1,234 @@
+/**
+ * Scheduled Restarts
+ *
+ * Triggers a rolling restart on a cron schedule (e.g. "0 4 * * *") and/or
+ * once the oldest worker exceeds a maximum age. Cron expressions have the
+ * usual 5 fields (minute hour day-of-month month day-of-week) and support
+ * wildcards, lists (1,15), ranges (1-5) and steps (0-30/5), in local time.
+ */
+
+import chalk from 'chalk';
+
+export interface RestartSchedule {
+  /** Cron expression for rolling restarts */
+  cron?: string;
+  /** Restart once the oldest worker is older than this (ms) */
+  maxWorkerAge?: number;
+}
+
+export interface ScheduleStatus {
+  cron?: string;
+  maxWorkerAge?: number;
+  /** Next scheduled restart (timestamp) and what triggers it */
+  nextRun?: number;
+  nextTrigger?: 'schedule' | 'max-age';
+  /** Most recent scheduled restart (skipped: why it did not run) */
+  lastRun?: { time: number; trigger: string; skipped?: string };
+}
+
+export interface ScheduleHooks {
+  /** Start time of the oldest running worker */
+  getOldestWorkerStart: () => number | undefined;
+  /**
+   * Request the rolling restart
+   * @returns reason why the restart was skipped, or undefined if it was requested
+   */
+  restart: (trigger: string) => string | undefined;
+}
+
+interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /** Day of month / day of week restricted (both restricted: either one matches) */
+  daysRestricted: boolean;
+  weekdaysRestricted: boolean;
+}
+
+const CRON_FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+const AGE_CHECK_INTERVAL = 60000;
+const MAX_TIMEOUT = 2 ** 31 - 1; // setTimeout limit (~24.8 days)
+const MAX_CRON_SEARCH = 366 * 24 * 60; // Give up after a year of minutes
+
+let cronSchedule: CronSchedule | null = null;
+let options: RestartSchedule = {};
+let hooks: ScheduleHooks | null = null;
+let cronTimer: NodeJS.Timeout | null = null;
+let ageInterval: NodeJS.Timeout | null = null;
+let nextCronRun: number | undefined;
+let lastRun: ScheduleStatus['lastRun'];
+
+/**
+ * Parse a 5-field cron expression
+ * @throws Error if the expression is invalid
+ */
+export function parseCron(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(`invalid cron expression "${expression}" (expected 5 fields)`);
+  }
+
+  const [minutes, hours, days, months, weekdays] = parts.map((part, i) => parseCronField(part, CRON_FIELDS[i]));
+  // 7 is Sunday as well
+  if (weekdays.delete(7)) weekdays.add(0);
+
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    daysRestricted: parts[2] !== '*',
+    weekdaysRestricted: parts[4] !== '*',
+  };
+}
+
+/**
+ * Parse one cron field into the set of matching values
+ */
+function parseCronField(field: string, { name, min, max }: typeof CRON_FIELDS[number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const item of field.split(',')) {
+    const match = item.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) throw new Error(`invalid cron ${name} "${item}"`);
+
+    const start = match[1] === '*' ? min : parseInt(match[2], 10);
+    const end = match[1] === '*' ? max : match[3] !== undefined ? parseInt(match[3], 10) : match[4] ? max : start;
+    const step = match[4] ? parseInt(match[4], 10) : 1;
+
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`invalid cron ${name} "${item}" (allowed: ${min}-${max})`);
+    }
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+
+  return values;
+}
+
+/**
+ * Next time (after `from`) the cron schedule matches
+ */
+export function getNextCronRun(schedule: CronSchedule, from: number = Date.now()): number | undefined {
+  const date = new Date(from);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  for (let i = 0; i < MAX_CRON_SEARCH; i++) {
+    if (cronMatches(schedule, date)) return date.getTime();
+    date.setMinutes(date.getMinutes() + 1);
+  }
+  return undefined; // e.g. "0 0 31 2 *"
+}
+
+function cronMatches(schedule: CronSchedule, date: Date): boolean {
+  if (!schedule.minutes.has(date.getMinutes()) || !schedule.hours.has(date.getHours())) return false;
+  if (!schedule.months.has(date.getMonth() + 1)) return false;
+
+  const dayMatch = schedule.days.has(date.getDate());
+  const weekdayMatch = schedule.weekdays.has(date.getDay());
+  if (schedule.daysRestricted && schedule.weekdaysRestricted) return dayMatch || weekdayMatch;
+  return dayMatch && weekdayMatch;
+}
+
+/**
+ * Start the restart schedule
+ * @throws Error if the cron expression is invalid
+ */
+export function startRestartSchedule(schedule: RestartSchedule, scheduleHooks: ScheduleHooks): void {
+  options = schedule;
+  hooks = scheduleHooks;
+  cronSchedule = schedule.cron ? parseCron(schedule.cron) : null;
+
+  if (cronSchedule) {
+    scheduleCronRun();
+    console.log(chalk.blue(
+      `Scheduled restarts: "${schedule.cron}" (next: ${nextCronRun ? new Date(nextCronRun).toLocaleString() : 'never'})`
+    ));
+  }
+
+  if (schedule.maxWorkerAge) {
+    console.log(chalk.blue(`Max worker age: ${Math.round(schedule.maxWorkerAge / 1000)}s`));
+    ageInterval = setInterval(checkWorkerAge, Math.min(AGE_CHECK_INTERVAL, schedule.maxWorkerAge));
+  }
+}
+
+/**
+ * Stop the restart schedule
+ */
+export function stopRestartSchedule(): void {
+  if (cronTimer) {
+    clearTimeout(cronTimer);
+    cronTimer = null;
+  }
+  if (ageInterval) {
+    clearInterval(ageInterval);
+    ageInterval = null;
+  }
+  hooks = null;
+}
+
+/**
+ * Schedule state for /status (undefined if no schedule is configured)
+ */
+export function getScheduleStatus(): ScheduleStatus | undefined {
+  if (!hooks) return undefined;
+
+  const oldest = options.maxWorkerAge ? hooks.getOldestWorkerStart() : undefined;
+  const nextAgeRun = oldest !== undefined ? oldest + options.maxWorkerAge! : undefined;
+  const ageFirst = nextAgeRun !== undefined && (nextCronRun === undefined || nextAgeRun < nextCronRun);
+
+  return {
+    cron: options.cron,
+    maxWorkerAge: options.maxWorkerAge,
+    nextRun: ageFirst ? nextAgeRun : nextCronRun,
+    nextTrigger: ageFirst ? 'max-age' : nextCronRun !== undefined ? 'schedule' : undefined,
+    lastRun,
+  };
+}
+
+/**
+ * Arm the timer for the next cron match
+ */
+function scheduleCronRun(): void {
+  nextCronRun = getNextCronRun(cronSchedule!);
+  if (nextCronRun === undefined) return;
+
+  // Long waits are split up because of the setTimeout limit
+  const delay = Math.min(nextCronRun - Date.now(), MAX_TIMEOUT);
+  cronTimer = setTimeout(() => {
+    cronTimer = null;
+    if (!hooks) return;
+    if (Date.now() >= nextCronRun!) runScheduled('schedule');
+    scheduleCronRun();
+  }, Math.max(delay, 0));
+}
+
+/**
+ * Restart once the oldest worker is over the age limit
+ */
+function checkWorkerAge(): void {
+  if (!hooks) return;
+  const oldest = hooks.getOldestWorkerStart();
+  if (oldest !== undefined && Date.now() - oldest >= options.maxWorkerAge!) {
+    runScheduled('max-age');
+  }
+}
+
+function runScheduled(trigger: string): void {
+  console.log(chalk.blue(`Scheduled rolling restart (${trigger})...`));
+  const skipped = hooks!.restart(trigger);
+  if (skipped) {
+    console.log(chalk.gray(`Scheduled restart skipped: ${skipped}`));
+  }
+  lastRun = { time: Date.now(), trigger, skipped };
+}
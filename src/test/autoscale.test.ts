@@ -0,0 +1,95 @@
+/**
+ * Autoscaling Decision Test
+ *
+ * Usage: node --test dist/test/autoscale.test.js
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { decideScale, type AutoscaleOptions, type LoadSample } from '../autoscale.js';
+
+const OPTIONS: Required<AutoscaleOptions> = {
+  minWorkers: 2,
+  maxWorkers: 4,
+  interval: 10000,
+  samples: 3,
+  scaleUpCpu: 75,
+  scaleDownCpu: 25,
+  minFreeMemoryPercent: 10,
+  scaleUpCooldown: 60000,
+  scaleDownCooldown: 300000,
+};
+
+/** Samples with the given CPU usage and plenty of free memory unless overridden */
+function samples(cpu: number[], memory: Partial<LoadSample> = {}): LoadSample[] {
+  return cpu.map((cpuPercent, i) => ({
+    time: i * 10000,
+    workers: 3,
+    cpuPercent,
+    memoryMB: 200,
+    totalMemoryMB: 8000,
+    freeMemoryMB: 4000,
+    freeMemoryPercent: 50,
+    ...memory,
+  }));
+}
+
+test('scales up when every sample is above the scale-up threshold', () => {
+  assert.deepEqual(decideScale(samples([80, 90, 85]), 3, OPTIONS, false), {
+    target: 4,
+    reason: 'avg CPU 85% > 75% for 3 samples',
+  });
+});
+
+test('scales down when every sample is below the scale-down threshold', () => {
+  assert.deepEqual(decideScale(samples([10, 20, 12]), 3, OPTIONS, false), {
+    target: 2,
+    reason: 'avg CPU 14% < 25% for 3 samples',
+  });
+});
+
+test('keeps the worker count between the thresholds (hysteresis)', () => {
+  assert.equal(decideScale(samples([50, 60, 70]), 3, OPTIONS, false), null);
+  // One sample in the band is enough to hold
+  assert.equal(decideScale(samples([80, 50, 90]), 3, OPTIONS, false), null);
+  assert.equal(decideScale(samples([10, 30, 10]), 3, OPTIONS, false), null);
+});
+
+test('waits for enough samples and for the cooldown', () => {
+  assert.equal(decideScale(samples([90, 90]), 3, OPTIONS, false), null);
+  assert.equal(decideScale(samples([90, 90, 90]), 3, OPTIONS, true), null);
+});
+
+test('stays within minWorkers and maxWorkers', () => {
+  assert.equal(decideScale(samples([90, 90, 90]), 4, OPTIONS, false), null);
+  assert.equal(decideScale(samples([5, 5, 5]), 2, OPTIONS, false), null);
+});
+
+test('moves a worker count outside the bounds back, even while cooling down', () => {
+  assert.deepEqual(decideScale([], 1, OPTIONS, true), { target: 2, reason: 'below minWorkers 2' });
+  assert.deepEqual(decideScale([], 6, OPTIONS, true), { target: 4, reason: 'above maxWorkers 4' });
+});
+
+test('scales down on low free memory regardless of CPU', () => {
+  const lowMemory = samples([90, 90, 90], { freeMemoryMB: 400, freeMemoryPercent: 5 });
+  assert.deepEqual(decideScale(lowMemory, 3, OPTIONS, false), {
+    target: 2,
+    reason: 'free memory 5% < 10% for 3 samples',
+  });
+  assert.equal(decideScale(lowMemory, 2, OPTIONS, false), null);
+});
+
+test('needs low memory in every sample before scaling down for it', () => {
+  const recent = samples([50, 50, 50], { freeMemoryPercent: 5 });
+  recent[0].freeMemoryPercent = 50;
+  assert.equal(decideScale(recent, 3, OPTIONS, false), null);
+});
+
+test('does not scale up if a new worker would leave too little free memory', () => {
+  // 1000 MB free - 300 MB for the new worker = 8.75% of 8000 MB
+  const tight = samples([90, 90, 90], { memoryMB: 300, freeMemoryMB: 1000, freeMemoryPercent: 12.5 });
+  assert.equal(decideScale(tight, 3, OPTIONS, false), null);
+
+  const enough = samples([90, 90, 90], { memoryMB: 100, freeMemoryMB: 1000, freeMemoryPercent: 12.5 });
+  assert.equal(decideScale(enough, 3, OPTIONS, false)?.target, 4);
+});
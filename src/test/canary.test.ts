@@ -0,0 +1,80 @@
+/**
+ * Canary Reload Test
+ *
+ * Reloads three workers into a release whose workers serve HTTP fine but
+ * report themselves unhealthy. The canary URL is served by every worker, so
+ * only checks that reach the canary itself can reject it.
+ *
+ * Usage: node --test dist/test/canary.test.js
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import net from 'node:net';
+import type { ReloadJob } from '../jobs.js';
+import { SDK, startMaster, waitFor, type TestMaster } from './cluster.js';
+
+/** App that answers every request with 200 and health checks over IPC with `healthy` */
+function app(healthy: boolean): string {
+  return `
+import http from 'node:http';
+import { ready, onHealthCheck, drainServer } from '${SDK}';
+const server = drainServer(http.createServer((req, res) => res.end('ok')));
+server.listen(process.env.PORT, () => ready());
+onHealthCheck(() => ${healthy});
+`;
+}
+
+/** A port that is free right now */
+function freePort(): Promise<number> {
+  return new Promise((resolve) => {
+    const server = net.createServer().listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+/** Run a canary reload into `file` and wait for the job to finish */
+async function canaryReload(master: TestMaster, file: string, url: string): Promise<ReloadJob> {
+  const { jobId } = await master.request<{ jobId: string }>('POST', '/reload', {
+    app: file,
+    canary: { bakeTime: 1500, interval: 100, url },
+  });
+  return waitFor('reload', async () => {
+    const job = await master.request<ReloadJob>('GET', `/reloads/${jobId}`);
+    return job.state !== 'queued' && job.state !== 'running' ? job : undefined;
+  }, 30000);
+}
+
+test('canary checks reach the canary worker', { timeout: 90000 }, async () => {
+  const port = await freePort();
+  const url = `http://127.0.0.1:${port}/`;
+  const master = await startMaster(
+    { 'v1.mjs': app(true), 'v2.mjs': app(false), 'v3.mjs': app(true) },
+    ['v1.mjs', '-w', '3'],
+    { PORT: String(port) }
+  );
+
+  try {
+    await waitFor('3 ready workers', () => master.readyWorkers(3));
+
+    // Old workers answer most requests to the URL - the canary must still be rejected
+    const rejected = await canaryReload(master, 'v2.mjs', url);
+    assert.equal(rejected.state, 'aborted');
+    assert.match(rejected.result?.error || '', /canary unhealthy: reported unhealthy/);
+    const restored = await waitFor('restored workers', () => master.readyWorkers(3));
+    assert.ok(restored.every(w => w.appFile?.endsWith('v1.mjs')));
+
+    const accepted = await canaryReload(master, 'v3.mjs', url);
+    assert.equal(accepted.state, 'succeeded');
+    assert.ok((accepted.result?.canary?.checks || 0) > 0);
+    const reloaded = await waitFor('reloaded workers', () => master.readyWorkers(3));
+    assert.ok(reloaded.every(w => w.appFile?.endsWith('v3.mjs')));
+
+    master.process.kill('SIGTERM');
+    await master.exited;
+  } finally {
+    master.cleanup();
+  }
+});
@@ -0,0 +1,93 @@
+/**
+ * Helpers for tests that run a real master (not a test file itself)
+ */
+
+import { spawn, type ChildProcess } from 'node:child_process';
+import fs from 'node:fs';
+import http from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import type { RuntimeStatus, WorkerStatus } from '../ipc.js';
+
+const CLI = fileURLToPath(new URL('../cli.js', import.meta.url));
+
+/** Import URL of the worker SDK for test apps */
+export const SDK = pathToFileURL(fileURLToPath(new URL('../worker.js', import.meta.url))).href;
+
+export interface TestMaster {
+  process: ChildProcess;
+  /** Project directory with the apps, PID file and socket */
+  dir: string;
+  exited: Promise<unknown>;
+  request: <T>(method: string, urlPath: string, body?: unknown) => Promise<T>;
+  /** The workers once there are `count` of them and all are ready */
+  readyWorkers: (count: number) => Promise<WorkerStatus[] | undefined>;
+  /** SIGKILL the master if it is still running and remove the directory */
+  cleanup: () => void;
+}
+
+/**
+ * Poll until the condition holds (fails the test after the timeout)
+ */
+export async function waitFor<T>(what: string, condition: () => T | Promise<T>, timeout = 15000): Promise<NonNullable<T>> {
+  const deadline = Date.now() + timeout;
+  while (Date.now() < deadline) {
+    const value = await condition();
+    if (value) return value;
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+  throw new Error(`timeout waiting for ${what}`);
+}
+
+/**
+ * Start `gpdd start <args>` in a new temp directory holding the given apps
+ * and wait until its socket is up
+ */
+export async function startMaster(apps: Record<string, string>, args: string[], env: Record<string, string> = {}): Promise<TestMaster> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gpdd-test-'));
+  for (const [file, source] of Object.entries(apps)) {
+    fs.writeFileSync(path.join(dir, file), source);
+  }
+  const socketPath = path.join(dir, '.gpdd.sock');
+
+  const child = spawn(process.execPath, [CLI, 'start', ...args], {
+    cwd: dir,
+    env: { ...process.env, ...env },
+    stdio: 'ignore',
+  });
+  const exited = new Promise(resolve => child.on('exit', resolve));
+
+  const request = <T>(method: string, urlPath: string, body?: unknown) => new Promise<T>((resolve, reject) => {
+    const req = http.request({ socketPath, method, path: urlPath }, (res) => {
+      let data = '';
+      res.on('data', chunk => data += chunk);
+      res.on('end', () => resolve(JSON.parse(data)));
+    });
+    req.on('error', reject);
+    req.end(body === undefined ? undefined : JSON.stringify(body));
+  });
+
+  const master: TestMaster = {
+    process: child,
+    dir,
+    exited,
+    request,
+    readyWorkers: async (count) => {
+      const { workers } = await request<RuntimeStatus>('GET', '/status');
+      return workers.length === count && workers.every(w => w.state === 'ready') ? workers : undefined;
+    },
+    cleanup: () => {
+      if (child.exitCode === null && child.signalCode === null) child.kill('SIGKILL');
+      fs.rmSync(dir, { recursive: true, force: true });
+    },
+  };
+
+  try {
+    await waitFor('socket', () => fs.existsSync(socketPath));
+  } catch (err) {
+    master.cleanup();
+    throw err;
+  }
+  return master;
+}
@@ -0,0 +1,111 @@
+/**
+ * Health Check Assertion Test
+ *
+ * Runs HTTP health checks with header, body and JSON assertions against a
+ * local server.
+ *
+ * Usage: node --test dist/test/health.test.js
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { checkHealth, validateHealthCheck, type HttpAssertions } from '../health.js';
+
+const HEALTH = {
+  status: 'ok',
+  db: { connected: true, replicas: [{ lag: 0 }, { lag: 12 }] },
+  version: '1.2.3',
+  count: 3,
+  empty: '',
+  nothing: null,
+};
+
+let server: http.Server;
+let baseUrl: string;
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    if (req.url === '/text') {
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      res.end('all systems go');
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json', 'X-Version': '1.2.3' });
+    res.end(JSON.stringify(HEALTH));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+/** Error of a check against the JSON endpoint (undefined if healthy) */
+async function check(assertions: HttpAssertions, path = '/health'): Promise<string | undefined> {
+  const result = await checkHealth(baseUrl + path, 2000, 200, assertions);
+  assert.equal(result.healthy, result.error === undefined);
+  return result.error;
+}
+
+test('header assertions match names case-insensitively and values exactly', async () => {
+  assert.equal(await check({ expectHeader: 'x-version' }), undefined);
+  assert.equal(await check({ expectHeader: 'X-Version: 1.2.3' }), undefined);
+  assert.equal(await check({ expectHeader: 'x-version: 1.2' }), 'header x-version is "1.2.3", expected "1.2"');
+  assert.equal(await check({ expectHeader: 'X-Missing' }), 'missing header x-missing');
+});
+
+test('body assertions look for a substring', async () => {
+  assert.equal(await check({ expectBody: 'systems go' }, '/text'), undefined);
+  assert.equal(await check({ expectBody: 'systems down' }, '/text'), 'body does not contain "systems down"');
+});
+
+test('JSON assertions compare quoted strings, numbers and booleans', async () => {
+  assert.equal(await check({ expectJson: '$.status == "ok"' }), undefined);
+  assert.equal(await check({ expectJson: '$.count == 3' }), undefined);
+  assert.equal(await check({ expectJson: '$.db.connected == true' }), undefined);
+  assert.equal(await check({ expectJson: '$.db.replicas[1].lag == 12' }), undefined);
+  assert.equal(await check({ expectJson: '$.status == "down"' }), '$.status == "down" failed (got "ok")');
+  // Types must match: 3 is not "3"
+  assert.equal(await check({ expectJson: '$.count == "3"' }), '$.count == "3" failed (got 3)');
+});
+
+test('JSON assertions take unquoted values as strings', async () => {
+  assert.equal(await check({ expectJson: '$.status == ok' }), undefined);
+  assert.equal(await check({ expectJson: '$.version==1.2.3' }), undefined);
+});
+
+test('JSON != assertions', async () => {
+  assert.equal(await check({ expectJson: '$.status != "down"' }), undefined);
+  assert.equal(await check({ expectJson: '$.status != "ok"' }), '$.status != "ok" failed');
+});
+
+test('JSON path without operator must be truthy', async () => {
+  assert.equal(await check({ expectJson: '$.db.connected' }), undefined);
+  assert.equal(await check({ expectJson: '$.count' }), undefined);
+  assert.equal(await check({ expectJson: '$.empty' }), '$.empty is ""');
+  assert.equal(await check({ expectJson: '$.nothing' }), '$.nothing is null');
+});
+
+test('JSON assertions on missing paths', async () => {
+  assert.equal(await check({ expectJson: '$.missing' }), '$.missing is undefined');
+  assert.equal(await check({ expectJson: '$.db.missing.deeper' }), '$.db.missing.deeper is undefined');
+  assert.equal(await check({ expectJson: '$.missing == "ok"' }), '$.missing == "ok" failed (got undefined)');
+  assert.equal(await check({ expectJson: '$.missing != "ok"' }), undefined);
+});
+
+test('JSON assertions fail on a body that is not JSON', async () => {
+  assert.equal(await check({ expectJson: '$.status' }, '/text'), 'body is not valid JSON');
+});
+
+test('malformed JSON assertions are rejected up front', () => {
+  for (const expression of ['status == "ok"', '$.status ==', '$.count >= 1', '$.status = "ok"', '  ']) {
+    assert.throws(
+      () => validateHealthCheck({ url: baseUrl, expectJson: expression }),
+      /invalid JSON assertion/,
+      expression
+    );
+  }
+});
@@ -0,0 +1,77 @@
+/**
+ * Reload Settings Test
+ *
+ * Usage: node --test dist/test/jobs.test.js
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveStrategy, resolveCanary, type CanaryOptions, type RolloutStrategy } from '../jobs.js';
+
+const ROLLING: RolloutStrategy = { type: 'rolling', maxSurge: 1, maxUnavailable: 0 };
+const CANARY: CanaryOptions = { bakeTime: 60000, interval: 5000, maxFailures: 0 };
+
+test('resolveStrategy uses the defaults without overrides', () => {
+  assert.deepEqual(resolveStrategy(ROLLING), ROLLING);
+  assert.deepEqual(resolveStrategy(ROLLING, {}), ROLLING);
+});
+
+test('resolveStrategy accepts numbers as strings', () => {
+  assert.deepEqual(resolveStrategy(ROLLING, { maxSurge: '4', maxUnavailable: '2' }), {
+    type: 'rolling',
+    maxSurge: 4,
+    maxUnavailable: 2,
+  });
+});
+
+test('resolveStrategy rejects negative and non-integer values', () => {
+  assert.throws(() => resolveStrategy(ROLLING, { maxSurge: -1 }), /maxSurge must be a non-negative integer/);
+  assert.throws(() => resolveStrategy(ROLLING, { maxSurge: '1.5' }), /maxSurge must be a non-negative integer/);
+  assert.throws(() => resolveStrategy(ROLLING, { maxSurge: 'many' }), /maxSurge must be a non-negative integer/);
+  assert.throws(() => resolveStrategy(ROLLING, { maxUnavailable: '-2' }), /maxUnavailable must be a non-negative integer/);
+});
+
+test('resolveStrategy rejects a rolling reload that replaces nothing', () => {
+  assert.throws(
+    () => resolveStrategy(ROLLING, { maxSurge: 0, maxUnavailable: 0 }),
+    /maxSurge and maxUnavailable cannot both be 0/
+  );
+  // Blue-green starts a full new generation, so 0/0 is fine
+  assert.deepEqual(resolveStrategy(ROLLING, { type: 'blue-green', maxSurge: 0, maxUnavailable: 0 }), {
+    type: 'blue-green',
+    maxSurge: 0,
+    maxUnavailable: 0,
+  });
+});
+
+test('resolveStrategy rejects unknown strategy types', () => {
+  assert.throws(() => resolveStrategy(ROLLING, { type: 'canary' }), /unknown strategy "canary"/);
+  assert.throws(() => resolveStrategy(ROLLING, { type: 42 }), /unknown strategy "42"/);
+});
+
+test('resolveCanary returns undefined for non-canary reloads', () => {
+  assert.equal(resolveCanary(CANARY, undefined), undefined);
+  assert.equal(resolveCanary(CANARY, false), undefined);
+});
+
+test('resolveCanary uses the defaults for canary: true', () => {
+  assert.deepEqual(resolveCanary(CANARY, true), { ...CANARY, url: undefined });
+});
+
+test('resolveCanary accepts overrides as strings', () => {
+  assert.deepEqual(resolveCanary(CANARY, { bakeTime: '30000', maxFailures: '2', url: 'http://localhost:3000/health' }), {
+    bakeTime: 30000,
+    interval: 5000,
+    url: 'http://localhost:3000/health',
+    maxFailures: 2,
+  });
+  assert.equal(resolveCanary(CANARY, { bakeTime: 0 })?.bakeTime, 0);
+});
+
+test('resolveCanary rejects invalid settings', () => {
+  assert.throws(() => resolveCanary(CANARY, { bakeTime: -1 }), /bakeTime must be a non-negative number/);
+  assert.throws(() => resolveCanary(CANARY, { bakeTime: 'soon' }), /bakeTime must be a non-negative number/);
+  assert.throws(() => resolveCanary(CANARY, { interval: 0 }), /interval must be a positive number/);
+  assert.throws(() => resolveCanary(CANARY, { maxFailures: -1 }), /maxFailures must be a non-negative integer/);
+  assert.throws(() => resolveCanary(CANARY, { maxFailures: '0.5' }), /maxFailures must be a non-negative integer/);
+});
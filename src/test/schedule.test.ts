@@ -0,0 +1,74 @@
+/**
+ * Cron Schedule Test
+ *
+ * Usage: node --test dist/test/schedule.test.js
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCron, getNextCronRun } from '../schedule.js';
+
+/** Local time, like the schedule itself */
+function at(year: number, month: number, day: number, hour = 0, minute = 0): number {
+  return new Date(year, month - 1, day, hour, minute).getTime();
+}
+
+test('parseCron expands steps', () => {
+  assert.deepEqual([...parseCron('*/15 * * * *').minutes], [0, 15, 30, 45]);
+  assert.deepEqual([...parseCron('5/20 * * * *').minutes], [5, 25, 45]);
+});
+
+test('parseCron expands ranges with steps and lists', () => {
+  assert.deepEqual([...parseCron('0 8-18/4 * * *').hours], [8, 12, 16]);
+  assert.deepEqual([...parseCron('0 0 1,15 * 1-5').days], [1, 15]);
+  assert.deepEqual([...parseCron('0 0 1,15 * 1-5').weekdays], [1, 2, 3, 4, 5]);
+});
+
+test('parseCron treats day of week 7 as Sunday', () => {
+  assert.deepEqual(parseCron('0 4 * * 7').weekdays, parseCron('0 4 * * 0').weekdays);
+  assert.deepEqual([...parseCron('0 4 * * 5-7').weekdays].sort(), [0, 5, 6]);
+});
+
+test('parseCron rejects invalid expressions', () => {
+  assert.throws(() => parseCron('* * * *'), /expected 5 fields/);
+  assert.throws(() => parseCron('60 * * * *'), /invalid cron minute "60"/);
+  assert.throws(() => parseCron('* 24 * * *'), /invalid cron hour/);
+  assert.throws(() => parseCron('* * 0 * *'), /invalid cron day of month/);
+  assert.throws(() => parseCron('* * * 13 *'), /invalid cron month/);
+  assert.throws(() => parseCron('* * * * 8'), /invalid cron day of week/);
+  assert.throws(() => parseCron('5-1 * * * *'), /invalid cron minute "5-1"/);
+  assert.throws(() => parseCron('*/0 * * * *'), /invalid cron minute/);
+  assert.throws(() => parseCron('a * * * *'), /invalid cron minute "a"/);
+  assert.throws(() => parseCron('1,,2 * * * *'), /invalid cron minute ""/);
+});
+
+test('getNextCronRun finds the next matching minute', () => {
+  const schedule = parseCron('*/15 * * * *');
+  assert.equal(getNextCronRun(schedule, at(2026, 3, 10, 9, 0)), at(2026, 3, 10, 9, 15));
+  assert.equal(getNextCronRun(schedule, at(2026, 3, 10, 9, 7)), at(2026, 3, 10, 9, 15));
+  assert.equal(getNextCronRun(schedule, at(2026, 3, 10, 9, 50)), at(2026, 3, 10, 10, 0));
+});
+
+test('getNextCronRun runs on Sunday for 0 and 7', () => {
+  // 2026-03-10 is a Tuesday
+  const from = at(2026, 3, 10, 12, 0);
+  assert.equal(getNextCronRun(parseCron('0 4 * * 0'), from), at(2026, 3, 15, 4, 0));
+  assert.equal(getNextCronRun(parseCron('0 4 * * 7'), from), at(2026, 3, 15, 4, 0));
+});
+
+test('getNextCronRun rolls over months and years', () => {
+  assert.equal(getNextCronRun(parseCron('0 4 1 * *'), at(2026, 1, 31, 5, 0)), at(2026, 2, 1, 4, 0));
+  assert.equal(getNextCronRun(parseCron('30 2 31 * *'), at(2026, 4, 1)), at(2026, 5, 31, 2, 30));
+  assert.equal(getNextCronRun(parseCron('0 0 1 1 *'), at(2026, 6, 15)), at(2027, 1, 1));
+});
+
+test('getNextCronRun matches day of month or day of week when both are restricted', () => {
+  // The 13th or any Friday: Friday 2026-03-06 comes first
+  assert.equal(getNextCronRun(parseCron('0 0 13 * 5'), at(2026, 3, 2)), at(2026, 3, 6));
+  // Only the day of month is restricted: weekday does not matter
+  assert.equal(getNextCronRun(parseCron('0 0 13 * *'), at(2026, 3, 2)), at(2026, 3, 13));
+});
+
+test('getNextCronRun gives up on dates that never exist', () => {
+  assert.equal(getNextCronRun(parseCron('0 0 31 2 *'), at(2026, 1, 1)), undefined);
+});
@@ -0,0 +1,80 @@
+/**
+ * Webhook Test
+ *
+ * Starts a master with two workers and a local webhook receiver, then
+ * scales down, reloads and kills a worker. Only the killed worker may be
+ * reported as worker:crashed.
+ *
+ * Usage: node --test dist/test/webhooks.test.js
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { ReloadJob } from '../jobs.js';
+import type { WebhookPayload } from '../webhooks.js';
+import { SDK, startMaster, waitFor } from './cluster.js';
+
+// Reports nothing in flight right away, but takes a while to exit after draining
+const APP = `
+import http from 'node:http';
+import { ready, onShutdown, drainServer } from '${SDK}';
+const server = drainServer(http.createServer((req, res) => res.end('ok')));
+server.listen(0, () => ready());
+onShutdown(() => new Promise(resolve => setTimeout(resolve, 500)));
+`;
+
+test('webhooks report crashes but not workers stopped on purpose', { timeout: 60000 }, async () => {
+  const received: WebhookPayload[] = [];
+  const receiver = http.createServer((req, res) => {
+    let data = '';
+    req.on('data', chunk => data += chunk);
+    req.on('end', () => {
+      received.push(JSON.parse(data));
+      res.end();
+    });
+  });
+  await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', resolve));
+  const { port } = receiver.address() as AddressInfo;
+
+  const master = await startMaster(
+    { 'app.mjs': APP },
+    ['app.mjs', '-w', '2', '--webhook', `http://127.0.0.1:${port}/hook`],
+    { GPDD_RESTART_DELAY: '100' }
+  );
+
+  try {
+    await waitFor('2 ready workers', () => master.readyWorkers(2));
+
+    // Scale-down and reload stop workers on purpose
+    await master.request('POST', '/scale', { count: 1 });
+    await waitFor('scale-down', () => master.readyWorkers(1));
+
+    const { jobId } = await master.request<{ jobId: string }>('POST', '/reload');
+    await waitFor('reload', async () => {
+      const job = await master.request<ReloadJob>('GET', `/reloads/${jobId}`);
+      return job.state === 'succeeded' || job.state === 'failed' ? job : undefined;
+    });
+    const [worker] = await waitFor('reloaded worker', () => master.readyWorkers(1));
+
+    await new Promise(resolve => setTimeout(resolve, 500));
+    assert.deepEqual(received.filter(p => p.event === 'worker:crashed'), []);
+
+    // A killed worker is a crash
+    process.kill(worker.pid, 'SIGKILL');
+    const crashed = await waitFor('worker:crashed', () => received.find(p => p.event === 'worker:crashed'));
+    assert.equal(crashed.data.type, 'worker:exited');
+    assert.equal(crashed.data.type === 'worker:exited' && crashed.data.workerId, worker.id);
+    assert.equal(crashed.data.type === 'worker:exited' && crashed.data.signal, 'SIGKILL');
+
+    await waitFor('restarted worker', () => master.readyWorkers(1));
+    master.process.kill('SIGTERM');
+    await master.exited;
+    assert.ok(received.some(p => p.event === 'shutdown'));
+    assert.equal(received.filter(p => p.event === 'worker:crashed').length, 1);
+  } finally {
+    master.cleanup();
+    receiver.close();
+  }
+});
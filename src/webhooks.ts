@@ -0,0 +1,329 @@
+/**
+ * Webhooks
+ *
+ * POSTs a JSON notification to configured URLs when something needs
+ * attention: a worker crashed, a reload completed or failed, a health check
+ * reached its threshold or the master shuts down. Deliveries run in the
+ * background and are retried with exponential backoff; with a secret, the
+ * body is signed (X-Gpdd-Signature: sha256=<HMAC of the body>).
+ */
+
+import http from 'node:http';
+import https from 'node:https';
+import os from 'node:os';
+import crypto from 'node:crypto';
+import chalk from 'chalk';
+import { subscribeEvents, describeEvent, type GpddEvent } from './events.js';
+
+export type WebhookEvent = 'worker:crashed' | 'reload:completed' | 'reload:failed' | 'health:threshold' | 'shutdown';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'worker:crashed',
+  'reload:completed',
+  'reload:failed',
+  'health:threshold',
+  'shutdown',
+];
+
+export interface WebhookOptions {
+  url: string;
+  /** Events sent to this webhook (default: all) */
+  events?: WebhookEvent[];
+  /** HMAC-SHA256 key for the X-Gpdd-Signature header */
+  secret?: string;
+  /** Request timeout in ms (default: 5000) */
+  timeout?: number;
+  /** Retries after a failed delivery (default: 3) */
+  retries?: number;
+}
+
+export interface WebhookStatus {
+  /** Origin of the URL only (the path of e.g. Slack webhooks is a secret) */
+  target: string;
+  events: WebhookEvent[];
+  delivered: number;
+  /** Deliveries given up after all retries */
+  failed: number;
+  lastError?: { time: number; event: WebhookEvent; error: string };
+}
+
+/** JSON body of a webhook request */
+export interface WebhookPayload {
+  event: WebhookEvent;
+  /** Same for all attempts of a delivery (X-Gpdd-Delivery) */
+  deliveryId: string;
+  time: number;
+  host: string;
+  masterPid: number;
+  app: string;
+  message: string;
+  /** The lifecycle event that triggered the webhook (see GET /events) */
+  data: GpddEvent;
+}
+
+const DEFAULT_TIMEOUT = 5000;
+const DEFAULT_RETRIES = 3;
+const RETRY_DELAY = 1000; // Doubled for every further retry
+const MAX_RETRY_DELAY = 60000;
+const MAX_PENDING = 100; // Deliveries in flight or waiting for a retry
+const FLUSH_TIMEOUT = 5000;
+
+interface Webhook {
+  options: WebhookOptions & { events: WebhookEvent[]; timeout: number; retries: number };
+  status: WebhookStatus;
+}
+
+let webhooks: Webhook[] = [];
+let unsubscribe: (() => void) | null = null;
+let getApp: () => string = () => '';
+/** Running deliveries (including their retries) */
+const pending: Set<Promise<void>> = new Set();
+
+/**
+ * Validate webhook options
+ * @throws Error if the URL, events or limits are invalid
+ */
+export function validateWebhook(webhook: WebhookOptions): void {
+  let url: URL;
+  try {
+    url = new URL(webhook.url);
+  } catch {
+    throw new Error(`invalid webhook url "${webhook.url}"`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`webhook url must be http or https (got ${url.protocol})`);
+  }
+  for (const event of webhook.events || []) {
+    if (!WEBHOOK_EVENTS.includes(event)) {
+      throw new Error(`unknown webhook event "${event}" (expected ${WEBHOOK_EVENTS.join(', ')})`);
+    }
+  }
+  if (webhook.timeout !== undefined && !(webhook.timeout > 0)) {
+    throw new Error('webhook timeout must be a positive number');
+  }
+  if (webhook.retries !== undefined && !(Number.isInteger(webhook.retries) && webhook.retries >= 0)) {
+    throw new Error('webhook retries must be a non-negative integer');
+  }
+}
+
+/**
+ * Parse a webhook definition from the command line: a plain URL, or e.g.
+ * "url=https://example.com/hook,events=worker:crashed,reload:failed,retries=5"
+ * @throws Error if the definition is invalid
+ */
+export function parseWebhookDefinition(definition: string): WebhookOptions {
+  if (/^https?:\/\//.test(definition.trim())) {
+    const webhook = { url: definition.trim() };
+    validateWebhook(webhook);
+    return webhook;
+  }
+
+  const webhook: WebhookOptions = { url: '' };
+  // Commas only separate key=value pairs, so the event list can use them too
+  for (const pair of definition.split(/,(?=\s*[a-z]+=)/)) {
+    const sep = pair.indexOf('=');
+    const key = pair.slice(0, sep).trim();
+    const value = pair.slice(sep + 1).trim();
+
+    if (sep === -1) {
+      throw new Error(`invalid webhook definition "${pair}" (expected key=value)`);
+    } else if (key === 'url') {
+      webhook.url = value;
+    } else if (key === 'events') {
+      webhook.events = value.split(/[,|]/).map(e => e.trim()).filter(Boolean) as WebhookEvent[];
+    } else if (key === 'secret') {
+      webhook.secret = value;
+    } else if (key === 'timeout' || key === 'retries') {
+      webhook[key] = parseInt(value, 10);
+    } else {
+      throw new Error(`unknown webhook setting "${key}"`);
+    }
+  }
+
+  validateWebhook(webhook);
+  return webhook;
+}
+
+/**
+ * Start sending webhooks for lifecycle events
+ * @param app Entry file reported in the payload (changes with releases)
+ */
+export function startWebhooks(options: WebhookOptions[], app: () => string): void {
+  getApp = app;
+  webhooks = options.map(webhook => {
+    const events = webhook.events?.length ? webhook.events : WEBHOOK_EVENTS;
+    console.log(chalk.blue(`Webhook: ${describeTarget(webhook.url)} (${events.join(', ')})`));
+    return {
+      options: {
+        ...webhook,
+        events,
+        timeout: webhook.timeout ?? DEFAULT_TIMEOUT,
+        retries: webhook.retries ?? DEFAULT_RETRIES,
+      },
+      status: { target: describeTarget(webhook.url), events, delivered: 0, failed: 0 },
+    };
+  });
+
+  unsubscribe = subscribeEvents((event) => {
+    const webhookEvent = toWebhookEvent(event);
+    if (!webhookEvent) return;
+    for (const webhook of webhooks) {
+      if (webhook.options.events.includes(webhookEvent)) send(webhook, webhookEvent, event);
+    }
+  });
+}
+
+/**
+ * Stop sending webhooks (deliveries already running continue)
+ */
+export function stopWebhooks(): void {
+  unsubscribe?.();
+  unsubscribe = null;
+}
+
+/**
+ * Wait for running deliveries before the master exits (at most FLUSH_TIMEOUT)
+ */
+export async function flushWebhooks(): Promise<void> {
+  if (pending.size === 0) return;
+  let timer: NodeJS.Timeout | undefined;
+  await Promise.race([
+    Promise.allSettled(Array.from(pending)),
+    new Promise(resolve => {
+      timer = setTimeout(resolve, FLUSH_TIMEOUT);
+    }),
+  ]);
+  clearTimeout(timer);
+}
+
+/**
+ * Delivery counts per webhook for /status (undefined without webhooks)
+ */
+export function getWebhookStatus(): WebhookStatus[] | undefined {
+  return webhooks.length > 0 ? webhooks.map(w => ({ ...w.status })) : undefined;
+}
+
+/**
+ * Which webhook event a lifecycle event is (if any)
+ */
+function toWebhookEvent(event: GpddEvent): WebhookEvent | undefined {
+  switch (event.type) {
+    case 'worker:exited':
+      return event.expected ? undefined : 'worker:crashed';
+    case 'reload:completed':
+    case 'reload:failed':
+      return event.type;
+    case 'health:failed':
+      return event.failures >= event.threshold ? 'health:threshold' : undefined;
+    case 'master:shutdown':
+      return 'shutdown';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Deliver an event in the background, retrying with backoff
+ */
+function send(webhook: Webhook, webhookEvent: WebhookEvent, event: GpddEvent): void {
+  const { status } = webhook;
+  if (pending.size >= MAX_PENDING) {
+    console.log(chalk.yellow(`Webhook ${status.target}: too many pending deliveries, dropping ${webhookEvent}`));
+    status.failed++;
+    status.lastError = { time: Date.now(), event: webhookEvent, error: 'too many pending deliveries' };
+    return;
+  }
+
+  const payload: WebhookPayload = {
+    event: webhookEvent,
+    deliveryId: crypto.randomUUID(),
+    time: event.time,
+    host: os.hostname(),
+    masterPid: process.pid,
+    app: getApp(),
+    message: describeEvent(event),
+    data: event,
+  };
+  const body = JSON.stringify(payload);
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'User-Agent': 'gpdd-webhook',
+    'X-Gpdd-Event': webhookEvent,
+    'X-Gpdd-Delivery': payload.deliveryId,
+  };
+  if (webhook.options.secret) {
+    headers['X-Gpdd-Signature'] = 'sha256=' + crypto.createHmac('sha256', webhook.options.secret).update(body).digest('hex');
+  }
+
+  const delivery = (async () => {
+    const { retries, timeout } = webhook.options;
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      const result = await post(webhook.options.url, body, headers, timeout);
+      if (result.ok) {
+        status.delivered++;
+        return;
+      }
+
+      const last = attempt === retries || !result.retry;
+      if (last) {
+        console.log(chalk.red(`Webhook ${status.target}: ${webhookEvent} failed after ${attempt + 1} attempts (${result.error})`));
+        status.failed++;
+        status.lastError = { time: Date.now(), event: webhookEvent, error: result.error };
+        return;
+      }
+
+      const delay = Math.min(RETRY_DELAY * Math.pow(2, attempt), MAX_RETRY_DELAY);
+      console.log(chalk.yellow(
+        `Webhook ${status.target}: ${webhookEvent} failed (${result.error}), retry ${attempt + 1}/${retries} in ${delay}ms`
+      ));
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  })();
+
+  pending.add(delivery);
+  delivery.finally(() => pending.delete(delivery));
+}
+
+/**
+ * POST the body once
+ * @returns retry: false for responses that another attempt would not change
+ */
+function post(
+  url: string,
+  body: string,
+  headers: Record<string, string>,
+  timeout: number
+): Promise<{ ok: true } | { ok: false; retry: boolean; error: string }> {
+  return new Promise((resolve) => {
+    const client = url.startsWith('https:') ? https : http;
+    const req = client.request(url, { method: 'POST', headers, timeout }, (res) => {
+      res.resume();
+      const code = res.statusCode || 0;
+      if (code >= 200 && code < 300) {
+        resolve({ ok: true });
+      } else {
+        // Server errors, 408 and 429 are worth another attempt; redirects and other 4xx are not
+        const retry = code >= 500 || code === 408 || code === 429;
+        resolve({ ok: false, retry, error: `status ${code}` });
+      }
+    });
+
+    req.on('error', (err) => resolve({ ok: false, retry: true, error: err.message }));
+    req.on('timeout', () => {
+      req.destroy(new Error(`timeout after ${timeout}ms`));
+    });
+
+    req.end(body);
+  });
+}
+
+/**
+ * URL without path and query for logs and /status
+ */
+function describeTarget(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return url;
+  }
+}
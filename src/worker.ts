@@ -0,0 +1,215 @@
+/**
+ * Worker SDK
+ *
+ * Helpers for apps running as gpdd workers, so they don't need to know the
+ * raw IPC protocol. Import from 'git-push-deploy-daemon/worker'.
+ *
+ * @example
+ * ```js
+ * import http from 'node:http';
+ * import { ready, onShutdown, drainServer } from 'git-push-deploy-daemon/worker';
+ *
+ * const server = drainServer(http.createServer(app));
+ * server.listen(3000, () => ready());
+ * onShutdown(() => db.close());
+ * ```
+ */
+
+import type { Server } from 'node:http';
+import type { Socket } from 'node:net';
+import { PROTOCOL_VERSION, parseMasterCommand, type WorkerMessage } from './protocol.js';
+
+type ShutdownHandler = () => void | Promise<void>;
+type HealthHandler = () => boolean | Promise<boolean>;
+
+const shutdownHandlers: ShutdownHandler[] = [];
+/** In-flight counts of every drained server */
+const inFlightCounters: Array<() => { connections: number; requests: number }> = [];
+let healthHandler: HealthHandler | null = null;
+let listening = false;
+let shuttingDown = false;
+let heartbeatInterval: NodeJS.Timeout | null = null;
+
+/**
+ * Tell the master this worker is ready to serve. Also starts sending
+ * heartbeats if the master runs a heartbeat watchdog.
+ */
+export function ready(): void {
+  listen();
+  send({ v: PROTOCOL_VERSION, type: 'gpdd:ready' });
+
+  const interval = parseInt(process.env.GPDD_HEARTBEAT_INTERVAL || '0', 10);
+  if (interval && !heartbeatInterval) {
+    heartbeatInterval = setInterval(heartbeat, interval);
+    heartbeatInterval.unref();
+  }
+}
+
+/**
+ * Send a single heartbeat (sent automatically after ready() when the master
+ * expects heartbeats)
+ */
+export function heartbeat(): void {
+  send({ v: PROTOCOL_VERSION, type: 'gpdd:heartbeat' });
+}
+
+/**
+ * Report custom numeric metrics (shown as `metrics` of the worker in /status)
+ */
+export function reportMetrics(metrics: Record<string, number>): void {
+  send({ v: PROTOCOL_VERSION, type: 'gpdd:metrics', metrics });
+}
+
+/**
+ * Run a handler when the master stops this worker (reload, scale-down,
+ * shutdown) or on SIGTERM/SIGINT. Handlers run in registration order, then
+ * the process exits.
+ */
+export function onShutdown(handler: ShutdownHandler): void {
+  listen();
+  shutdownHandlers.push(handler);
+}
+
+/**
+ * Answer per-worker health checks (--worker-health) with the handler's result
+ * (without a handler the worker answers healthy)
+ */
+export function onHealthCheck(handler: HealthHandler): void {
+  listen();
+  healthHandler = handler;
+}
+
+/**
+ * Drain an HTTP server on shutdown: stop accepting connections, close idle
+ * keep-alive connections right away and the others once their in-flight
+ * request has finished
+ */
+export function drainServer<T extends Server>(server: T): T {
+  // Active requests per connection
+  const connections: Map<Socket, number> = new Map();
+  let draining = false;
+
+  server.on('connection', (socket: Socket) => {
+    connections.set(socket, 0);
+    socket.on('close', () => {
+      connections.delete(socket);
+      if (draining) reportInFlight();
+    });
+  });
+
+  inFlightCounters.push(() => ({
+    connections: connections.size,
+    requests: Array.from(connections.values()).reduce((sum, active) => sum + active, 0),
+  }));
+
+  // Runs before the app's request handler
+  server.prependListener('request', (req, res) => {
+    const socket = req.socket;
+    connections.set(socket, (connections.get(socket) || 0) + 1);
+    if (draining) res.setHeader('Connection', 'close');
+
+    let done = false;
+    const finish = () => {
+      if (done) return;
+      done = true;
+      const active = (connections.get(socket) || 1) - 1;
+      connections.set(socket, active);
+      if (draining && active === 0) socket.destroySoon();
+      if (draining) reportInFlight();
+    };
+    res.on('finish', finish);
+    res.on('close', finish);
+  });
+
+  onShutdown(() => new Promise<void>((resolve) => {
+    draining = true;
+    reportInFlight();
+    if (!server.listening) {
+      resolve();
+      return;
+    }
+    server.close(() => resolve());
+
+    for (const [socket, active] of connections) {
+      if (active === 0) socket.destroySoon();
+    }
+  }));
+
+  return server;
+}
+
+/**
+ * Whether the process runs as a gpdd worker (IPC channel to the master)
+ */
+export function isManaged(): boolean {
+  return typeof process.send === 'function';
+}
+
+/**
+ * Tell the master how many connections and requests are still open
+ */
+function reportInFlight(): void {
+  const counts = inFlightCounters.map(count => count());
+  send({
+    v: PROTOCOL_VERSION,
+    type: 'gpdd:drain',
+    connections: counts.reduce((sum, c) => sum + c.connections, 0),
+    requests: counts.reduce((sum, c) => sum + c.requests, 0),
+  });
+}
+
+function send(message: WorkerMessage): void {
+  if (process.send && process.connected) {
+    process.send(message);
+  }
+}
+
+/**
+ * Listen for master commands and termination (once)
+ */
+function listen(): void {
+  if (listening) return;
+  listening = true;
+
+  process.on('message', async (message) => {
+    const command = parseMasterCommand(message);
+    if (command === 'shutdown') {
+      shutdown();
+    } else if (command === 'health') {
+      try {
+        const healthy = healthHandler ? await healthHandler() : true;
+        send({ v: PROTOCOL_VERSION, type: 'gpdd:health', healthy });
+      } catch (err) {
+        send({ v: PROTOCOL_VERSION, type: 'gpdd:health', healthy: false, error: String(err) });
+      }
+    }
+  });
+
+  // The master disconnects right after 'shutdown' during reload and scale-down
+  process.on('disconnect', shutdown);
+  process.on('SIGTERM', shutdown);
+  process.on('SIGINT', shutdown);
+}
+
+/**
+ * Run the shutdown handlers once, then exit
+ */
+async function shutdown(): Promise<void> {
+  if (shuttingDown) return;
+  shuttingDown = true;
+
+  if (heartbeatInterval) {
+    clearInterval(heartbeatInterval);
+    heartbeatInterval = null;
+  }
+
+  for (const handler of shutdownHandlers) {
+    try {
+      await handler();
+    } catch (err) {
+      console.error(`[gpdd] Shutdown handler failed: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  process.exit(0);
+}